@@ -6,6 +6,18 @@ CREATE DATABASE "TodoDB";
 DROP TYPE IF EXISTS todo_status;
 CREATE TYPE todo_status AS ENUM ('incomplete', 'complete');
 
+DROP TABLE IF EXISTS users;
+CREATE TABLE users (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR(100) NOT NULL UNIQUE,
+    password VARCHAR(255) NOT NULL,
+	profile VARCHAR(255),
+	is_admin BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    edited_at TIMESTAMP,
+    verified_at TIMESTAMP
+);
+
 DROP TABLE IF EXISTS todos;
 CREATE TABLE todos (
   id SERIAL PRIMARY KEY,
@@ -15,7 +27,8 @@ CREATE TABLE todos (
   due_at TIMESTAMP,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   completed_at TIMESTAMP,
-  edited_at TIMESTAMP
+  edited_at TIMESTAMP,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE
 );
 
 DROP TABLE IF EXISTS subtodos;
@@ -29,13 +42,55 @@ CREATE TABLE subtodos (
   todo_id INTEGER REFERENCES todos(id) ON DELETE CASCADE
 );
 
-DROP TABLE IF EXISTS users;
-CREATE TABLE users (
-    id SERIAL PRIMARY KEY,
-    email VARCHAR(100) NOT NULL UNIQUE,
-    password VARCHAR(255) NOT NULL,
-	profile VARCHAR(255),
-	is_admin BOOLEAN DEFAULT FALSE,
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    edited_at TIMESTAMP
+DROP TABLE IF EXISTS user_settings;
+CREATE TABLE user_settings (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  theme VARCHAR(10) NOT NULL DEFAULT 'light',
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  locale VARCHAR(35) NOT NULL DEFAULT 'en-US',
+  sort_by VARCHAR(20) NOT NULL DEFAULT 'id',
+  order_by VARCHAR(4) NOT NULL DEFAULT 'asc',
+  page_size INTEGER NOT NULL DEFAULT 20,
+  edited_at TIMESTAMP
+);
+
+DROP TABLE IF EXISTS remember_tokens;
+CREATE TABLE remember_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  selector VARCHAR(24) NOT NULL UNIQUE,
+  validator_hash VARCHAR(64) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DROP TABLE IF EXISTS password_reset_tokens;
+CREATE TABLE password_reset_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DROP TABLE IF EXISTS sessions;
+CREATE TABLE sessions (
+  id VARCHAR(64) PRIMARY KEY,
+  data JSONB NOT NULL DEFAULT '{}',
+  should_regenerate BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX sessions_expires_at_idx ON sessions (expires_at);
+CREATE INDEX sessions_user_id_idx ON sessions ((data->>'userId'));
+
+DROP TABLE IF EXISTS login_attempts;
+CREATE TABLE login_attempts (
+  scope VARCHAR(10) NOT NULL,
+  key VARCHAR(320) NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL,
+  locked_until TIMESTAMPTZ,
+  PRIMARY KEY (scope, key)
 );
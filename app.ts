@@ -1,5 +1,6 @@
 import postgres from "postgres";
 import Server from "./src/Server";
+import PostgresSessionStore from "./src/auth/PostgresSessionStore";
 import { HttpResponse, makeHttpRequest } from "./tests/client";
 
 const sql = postgres({
@@ -10,6 +11,7 @@ const server = new Server({
 	host: "localhost",
 	port: 3000,
 	sql,
+	sessionStore: new PostgresSessionStore(sql),
 });
 
 const main = async () => {
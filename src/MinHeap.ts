@@ -0,0 +1,100 @@
+/**
+ * A binary min-heap: the item with the smallest key is always at the
+ * top. Pushing and popping take O(log n), and peeking takes O(1).
+ * @see https://en.wikipedia.org/wiki/Binary_heap
+ * @example
+ * const heap = new MinHeap<number>((n) => n);
+ * heap.push(3); heap.push(1); heap.push(2);
+ * heap.pop() => 1
+ */
+export default class MinHeap<T> {
+	private items: T[] = [];
+
+	/**
+	 * @param getKey Returns the number that items are ordered by.
+	 */
+	constructor(private getKey: (item: T) => number) {}
+
+	get size() {
+		return this.items.length;
+	}
+
+	/**
+	 * @returns The item with the smallest key, without removing it.
+	 */
+	peek(): T | undefined {
+		return this.items[0];
+	}
+
+	push(item: T) {
+		this.items.push(item);
+		this.siftUp(this.items.length - 1);
+	}
+
+	/**
+	 * Removes and returns the item with the smallest key.
+	 */
+	pop(): T | undefined {
+		const top = this.items[0];
+		const last = this.items.pop();
+
+		if (this.items.length > 0 && last !== undefined) {
+			this.items[0] = last;
+			this.siftDown(0);
+		}
+
+		return top;
+	}
+
+	/**
+	 * Moves the item up until its parent's key is no larger than its own.
+	 */
+	private siftUp(index: number) {
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+
+			if (this.compare(parent, index) <= 0) {
+				break;
+			}
+
+			this.swap(parent, index);
+			index = parent;
+		}
+	}
+
+	/**
+	 * Moves the item down until neither of its children has a smaller key.
+	 */
+	private siftDown(index: number) {
+		const length = this.items.length;
+
+		while (true) {
+			const left = index * 2 + 1;
+			const right = left + 1;
+			let smallest = index;
+
+			if (left < length && this.compare(left, smallest) < 0) {
+				smallest = left;
+			}
+
+			if (right < length && this.compare(right, smallest) < 0) {
+				smallest = right;
+			}
+
+			if (smallest === index) {
+				break;
+			}
+
+			this.swap(smallest, index);
+			index = smallest;
+		}
+	}
+
+	private compare(a: number, b: number) {
+		return this.getKey(this.items[a]) - this.getKey(this.items[b]);
+	}
+
+	private swap(a: number, b: number) {
+		[this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+	}
+}
@@ -5,23 +5,105 @@ import Router from "./router/Router";
 import TodoController from "./controllers/TodoController";
 import postgres from "postgres";
 import fs from "fs/promises";
+import path from "path";
 import UserController from "./controllers/UserController";
 import AuthController from "./controllers/AuthController";
-import SessionManager from "./auth/SessionManager";
+import SessionManager, { SessionTimeouts } from "./auth/SessionManager";
+import SessionStore from "./auth/SessionStore";
 import Cookie from "./auth/Cookie";
+import { setSecrets } from "./auth/secrets";
+import Mailer from "./mail/Mailer";
+import OutboxMailer from "./mail/OutboxMailer";
+import { Middleware } from "./router/Router";
+import {
+	bodyParser,
+	errorHandler,
+	logger,
+	sessionLoader,
+} from "./router/middleware";
+import { verifyCsrfToken } from "./auth/csrf";
+import { IMAGES_PATH, STYLES_PATH } from "./url";
 
 /**
  * Options for creating a new Server instance.
  * @property host The hostname of the server.
  * @property port The port number of the server.
  * @property sql The postgres connection object.
+ * @property middlewares The middlewares every request goes through, in order.
+ * Defaults to `defaultMiddlewares`.
+ * @property sessionStore Where sessions are kept. Defaults to a `MemorySessionStore`.
+ * @property sessionTimeouts How long sessions last. Defaults to `SessionManager.DEFAULT_TIMEOUTS`.
+ * @property cookieSecrets The keys used to sign and encrypt cookies, newest first.
+ * Defaults to `COOKIE_SECRET` from `.env`.
+ * @property mailer How emails are sent. Defaults to an `OutboxMailer`.
  */
 export interface ServerOptions {
 	host: string;
 	port: number;
 	sql: postgres.Sql;
+	middlewares?: Middleware[];
+	sessionStore?: SessionStore;
+	sessionTimeouts?: Partial<SessionTimeouts>;
+	cookieSecrets?: string[];
+	mailer?: Mailer;
 }
 
+/**
+ * The built-in middlewares, in the order they run by default. Pass a
+ * reordered or extended copy as `middlewares` to change the pipeline.
+ * @example new Server({ ...options, middlewares: [...defaultMiddlewares, rateLimiter] })
+ */
+export const defaultMiddlewares: Middleware[] = [
+	errorHandler,
+	logger,
+	sessionLoader,
+	bodyParser,
+	verifyCsrfToken,
+];
+
+/**
+ * The only folders static files are served from. Everything else in the
+ * project folder, like the source code or `.env`, is never sent.
+ */
+const STATIC_DIRECTORIES = [STYLES_PATH, IMAGES_PATH];
+
+/**
+ * Static files that live at the root of the project folder.
+ */
+const STATIC_FILES = ["favicon.ico"];
+
+/**
+ * @param pathname The path of the URL, without the query string.
+ * @returns Whether the path points into one of the static folders or to one of the static files.
+ */
+const isStaticPath = (pathname: string) => {
+	const segments = pathname.split(/[/\\]/).slice(1);
+
+	return (
+		(segments.length > 1 && STATIC_DIRECTORIES.includes(segments[0])) ||
+		(segments.length === 1 && STATIC_FILES.includes(segments[0]))
+	);
+};
+
+/**
+ * The content types of the static files the server hands out, by extension.
+ * Anything else is sent as raw bytes.
+ */
+const STATIC_FILE_TYPES: Record<string, string> = {
+	".css": "text/css; charset=utf-8",
+	".js": "text/javascript; charset=utf-8",
+	".html": "text/html; charset=utf-8",
+	".txt": "text/plain; charset=utf-8",
+	".json": "application/json",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".svg": "image/svg+xml",
+	".ico": "image/x-icon",
+};
+
 /**
  * A class that represents an HTTP server.
  * The server listens for incoming requests and routes them to the appropriate controller.
@@ -46,11 +128,28 @@ export default class Server {
 		this.host = serverOptions.host;
 		this.port = serverOptions.port;
 
+		if (serverOptions.sessionStore) {
+			SessionManager.getInstance().setStore(serverOptions.sessionStore);
+		}
+
+		if (serverOptions.cookieSecrets) {
+			setSecrets(serverOptions.cookieSecrets);
+		}
+
+		if (serverOptions.sessionTimeouts) {
+			SessionManager.getInstance().setTimeouts(
+				serverOptions.sessionTimeouts,
+			);
+		}
+
 		this.router = new Router();
+		this.router.use(...(serverOptions.middlewares ?? defaultMiddlewares));
+
+		const mailer = serverOptions.mailer ?? new OutboxMailer();
 
 		this.todoController = new TodoController(this.sql);
-		this.userController = new UserController(this.sql);
-		this.authController = new AuthController(this.sql);
+		this.userController = new UserController(this.sql, mailer);
+		this.authController = new AuthController(this.sql, mailer);
 
 		this.todoController.registerRoutes(this.router);
 		this.userController.registerRoutes(this.router);
@@ -90,14 +189,14 @@ export default class Server {
 
 	/**
 	 * Every time a request is made to the server, this method is called.
-	 * It routes the request to the appropriate controller and sends the response back to the client.
+	 * It sends the request through the router's middlewares to the appropriate
+	 * controller, which sends the response back to the client.
 	 * @param req The request object.
 	 * @param res The response object.
 	 */
 	handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
-		console.log(`>>> ${req.method} ${req.url}`);
-
-		if (req.url?.match(/.*\..*/)) {
+		// Only the path decides, since query strings can have dots in them too.
+		if (req.url && isStaticPath(req.url.split("?")[0])) {
 			await this.serveStaticFile(req.url, res);
 			return;
 		}
@@ -122,54 +221,62 @@ export default class Server {
 			return;
 		}
 
-		// Parse the request body and extract the incoming data.
-		// This is only done for POST and PUT requests because they
-		// normally data in their body whereas GET and DELETE requests do not.
-		if (req.method === "POST" || req.method === "PUT") {
-			await request.parseBody();
-		}
+		await this.router.handle(request, response);
+	};
 
-		// Find the appropriate handler for the current request.
-		const handler = this.router.findMatchingHandler(
-			request.getMethod(),
-			req.url,
-		);
+	/**
+	 * A static file is a file that the client requests for
+	 * directly. Within the context of the web, this is usually
+	 * .html, .css, .js, and any image/video/audio file types.
+	 * Only the styles, the images and the favicon are served;
+	 * anything else is not found.
+	 */
+	serveStaticFile = async (url: string, res: ServerResponse) => {
+		const [pathname] = url.split("?");
+		let filePath: string;
 
-		// If no handler is found, send a 404 Not Found response.
-		if (!handler) {
-			response.send({
-				statusCode: StatusCode.NotFound,
-				message: `Invalid route: ${req.method} ${req.url}`,
-			});
+		try {
+			filePath = `.${decodeURIComponent(pathname)}`;
+		} catch {
+			filePath = "";
+		}
+
+		// Paths that step out of the current directory could read any file on the machine.
+		if (!filePath || filePath.split(/[/\\]/).includes("..")) {
+			res.statusCode = StatusCode.BadRequest;
+			res.end();
+			return;
+		}
 
+		// Encoded slashes only show up as folders once the path is decoded.
+		if (!isStaticPath(filePath.slice(1))) {
+			res.statusCode = StatusCode.NotFound;
+			res.end();
 			return;
 		}
 
-		// If a handler is found, call it with the request and response objects.
+		let file: Buffer;
+
 		try {
-			await handler(request, response);
+			file = await fs.readFile(filePath);
 		} catch (error) {
-			const message = `Error while handling request: ${error}`;
-			console.error(message);
-			response.send({
-				statusCode: StatusCode.InternalServerError,
-				message,
-			});
-		}
-	};
+			const code = (error as NodeJS.ErrnoException).code;
 
-	/**
-	 * A static file is a file that the client requests for
-	 * directly. This is anything with a valid file extension.
-	 * Within the context of the web, this is usually .html,
-	 * .css, .js, and any image/video/audio file types.
-	 */
-	serveStaticFile = async (url: string, res: ServerResponse) => {
-		const filePath = `.${url}`;
-		const file = await fs.readFile(filePath);
+			res.statusCode = ["ENOENT", "ENOTDIR", "EISDIR"].includes(
+				code ?? "",
+			)
+				? StatusCode.NotFound
+				: StatusCode.InternalServerError;
+			res.end();
+			return;
+		}
 
+		res.setHeader(
+			"Content-Type",
+			STATIC_FILE_TYPES[path.extname(filePath).toLowerCase()] ??
+				"application/octet-stream",
+		);
 		res.end(file);
-		return;
 	};
 
 	/**
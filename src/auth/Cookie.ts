@@ -1,21 +1,188 @@
+import { sign, unsign } from "./signature";
+import { encrypt, decrypt } from "./encryption";
+
+/**
+ * @property maxAge How many seconds until the cookie expires. When set, it
+ * takes the place of the `expires` passed to the constructor.
+ * @property domain The hosts the cookie is sent to. Leave it out to only
+ * send the cookie to the host that set it.
+ * @property path The paths the cookie is sent to. Defaults to `/`.
+ * @property secure Only send the cookie over HTTPS.
+ * @property httpOnly Hide the cookie from JavaScript. Defaults to `true`.
+ * @property sameSite Whether the cookie is sent with cross-site requests. Defaults to `Strict`.
+ * @property partitioned Keep a separate cookie jar for every top-level site the cookie is embedded in.
+ * @property signed Sign the value so that changes made by the client can be detected.
+ * @property encrypted Encrypt the value so that the client can't read or change it.
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Set-Cookie#attributes
+ */
+export interface CookieOptions {
+	maxAge?: number;
+	domain?: string;
+	path?: string;
+	secure?: boolean;
+	httpOnly?: boolean;
+	sameSite?: "Strict" | "Lax" | "None";
+	partitioned?: boolean;
+	signed?: boolean;
+	encrypted?: boolean;
+}
+
+/**
+ * Signed and encrypted values are sent with a prefix,
+ * so that they can be told apart when they come back.
+ */
+const SIGNED_PREFIX = "s:";
+const ENCRYPTED_PREFIX = "e:";
+
+/**
+ * Browsers only accept cookies with these name prefixes if they're
+ * secure, and `__Host-` cookies also can't be shared with other hosts.
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Set-Cookie#cookie_prefixes
+ */
+const SECURE_PREFIX = "__Secure-";
+const HOST_PREFIX = "__Host-";
+
+/**
+ * Any character that isn't allowed in a cookie value, plus `%` so that
+ * values that look encoded survive the round trip.
+ * @see https://datatracker.ietf.org/doc/html/rfc6265#section-4.1.1
+ */
+const UNSAFE_VALUE_CHARACTERS =
+	/[^\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]|%/gu;
+
 export default class Cookie {
 	static DEFAULT_TIME: number = 1000 * 60 * 10; // Milliseconds * seconds * minutes.
 
 	name: string;
 	value: string;
 	expires: Date;
+	maxAge?: number;
+	domain?: string;
+	path: string;
+	secure: boolean;
 	httpOnly: boolean;
+	sameSite: "Strict" | "Lax" | "None";
+	partitioned: boolean;
+	signed: boolean;
+	encrypted: boolean;
 
+	/**
+	 * @param expires The number of milliseconds from now that the cookie should expire.
+	 * @throws Error if a `__Host-` cookie has a domain or a path other than `/`.
+	 */
 	constructor(
 		name: string,
 		value: string,
 		expires = Cookie.DEFAULT_TIME,
-		httpOnly = true,
+		{
+			maxAge,
+			domain,
+			path = "/",
+			secure = false,
+			httpOnly = true,
+			sameSite = "Strict",
+			partitioned = false,
+			signed = false,
+			encrypted = false,
+		}: CookieOptions = {},
 	) {
+		if (name.startsWith(HOST_PREFIX) && (domain || path !== "/")) {
+			throw new Error(
+				`${HOST_PREFIX} cookies can't have a domain and must have the path /.`,
+			);
+		}
+
 		this.name = name;
 		this.value = value;
+		this.expires = new Date(
+			Date.now() + (maxAge === undefined ? expires : maxAge * 1000),
+		);
+		this.maxAge = maxAge;
+		this.domain = domain;
+		this.path = path;
 		this.httpOnly = httpOnly;
-		this.expires = new Date(Date.now() + expires);
+		this.sameSite = sameSite;
+		this.partitioned = partitioned;
+		this.signed = signed;
+		this.encrypted = encrypted;
+
+		// Browsers drop these cookies unless they're secure, so they always are.
+		this.secure =
+			secure ||
+			name.startsWith(SECURE_PREFIX) ||
+			name.startsWith(HOST_PREFIX) ||
+			sameSite === "None" ||
+			partitioned;
+	}
+
+	/**
+	 * Parses the `Cookie` request header. Pairs without a name or an `=`
+	 * are skipped, quotes around values are removed, values are URL
+	 * decoded, and if a name appears twice, the first one wins.
+	 * @see https://datatracker.ietf.org/doc/html/rfc6265#section-5.4
+	 * @example Cookie.parseHeader('a=1; b="x%20y"; c') => { a: "1", b: "x y" }
+	 */
+	static parseHeader(cookieHeader: string) {
+		const pairs: Record<string, string> = {};
+
+		for (const pair of cookieHeader.split(";")) {
+			const index = pair.indexOf("=");
+
+			if (index === -1) {
+				continue;
+			}
+
+			const name = pair.slice(0, index).trim();
+			let value = pair.slice(index + 1).trim();
+
+			if (!name || name in pairs) {
+				continue;
+			}
+
+			if (
+				value.length > 1 &&
+				value.startsWith('"') &&
+				value.endsWith('"')
+			) {
+				value = value.slice(1, -1);
+			}
+
+			try {
+				value = decodeURIComponent(value);
+			} catch {
+				// Not valid URL encoding, so the value is kept as it was sent.
+			}
+
+			pairs[name] = value;
+		}
+
+		return pairs;
+	}
+
+	/**
+	 * Creates a cookie from a name and value sent by the client. Signed
+	 * and encrypted values are checked and turned back into the original.
+	 * @returns The cookie, or `null` if the value was tampered with.
+	 * @example Cookie.fromRequest("token", "s:abc.Zm9vYmFy...") => Cookie { value: "abc", signed: true }
+	 */
+	static fromRequest(name: string, rawValue: string) {
+		if (rawValue.startsWith(ENCRYPTED_PREFIX)) {
+			const value = decrypt(rawValue.slice(ENCRYPTED_PREFIX.length));
+
+			return value === null
+				? null
+				: new Cookie(name, value, undefined, { encrypted: true });
+		}
+
+		if (rawValue.startsWith(SIGNED_PREFIX)) {
+			const value = unsign(rawValue.slice(SIGNED_PREFIX.length));
+
+			return value === null
+				? null
+				: new Cookie(name, value, undefined, { signed: true });
+		}
+
+		return new Cookie(name, rawValue);
 	}
 
 	getExpires() {
@@ -28,15 +195,49 @@ export default class Cookie {
 	 */
 	setExpires(time = 0) {
 		this.expires = new Date(Date.now() + time);
+
+		if (this.maxAge !== undefined) {
+			this.maxAge = Math.max(0, Math.round(time / 1000));
+		}
 	}
 
 	/**
 	 * Generates the valid string representation of the cookie to be sent in a response header.
 	 * @returns The string representation of the cookie.
+	 * @example "theme=dark; Path=/; Expires=Wed, 21 Oct 2015 07:28:00 GMT; HttpOnly; SameSite=Strict"
 	 */
 	toString() {
-		return `${this.name}=${
-			this.value
-		}; Path=/; HttpOnly; SameSite=Strict; Expires=${this.expires.toUTCString()}`;
+		const attributes = [
+			`${this.name}=${this.serializeValue()}`,
+			this.domain && `Domain=${this.domain}`,
+			`Path=${this.path}`,
+			`Expires=${this.expires.toUTCString()}`,
+			this.maxAge !== undefined && `Max-Age=${this.maxAge}`,
+			this.secure && "Secure",
+			this.httpOnly && "HttpOnly",
+			`SameSite=${this.sameSite}`,
+			this.partitioned && "Partitioned",
+		];
+
+		return attributes.filter(Boolean).join("; ");
+	}
+
+	/**
+	 * Empty values are left as they are, since they're only
+	 * used to delete cookies and don't need protecting.
+	 * @returns The value to send to the client, URL encoded where needed.
+	 */
+	private serializeValue() {
+		let value = this.value;
+
+		if (value && this.encrypted) {
+			value = `${ENCRYPTED_PREFIX}${encrypt(value)}`;
+		} else if (value && this.signed) {
+			value = `${SIGNED_PREFIX}${sign(value)}`;
+		}
+
+		return value.replace(UNSAFE_VALUE_CHARACTERS, (character) =>
+			encodeURIComponent(character),
+		);
 	}
 }
@@ -0,0 +1,96 @@
+import Session from "./Session";
+import SessionStore from "./SessionStore";
+import MinHeap from "../MinHeap";
+
+interface Expiry {
+	session: Session;
+	expiresAt: number;
+}
+
+/**
+ * Keeps sessions in a Map in the server's memory. This is the default
+ * store. It's fast and needs no setup, but every session is lost when
+ * the server restarts.
+ *
+ * Expiries are kept in a min-heap, so pruning only looks at the sessions
+ * that are due instead of every session. Heap entries aren't updated
+ * when a session is refreshed or destroyed. Instead, stale entries are
+ * skipped or pushed back with the new expiry when they reach the top.
+ */
+export default class MemorySessionStore implements SessionStore {
+	sessions = new Map<string, Session>();
+	private expiries = new MinHeap<Expiry>(({ expiresAt }) => expiresAt);
+
+	async get(sessionId: string) {
+		const session = this.sessions.get(sessionId);
+
+		return session?.isExpired() ? undefined : session;
+	}
+
+	async set(session: Session) {
+		if (this.sessions.get(session.id) !== session) {
+			this.sessions.set(session.id, session);
+			this.expiries.push({
+				session,
+				expiresAt: session.cookie.getExpires(),
+			});
+		}
+	}
+
+	async destroy(sessionId: string) {
+		this.sessions.delete(sessionId);
+	}
+
+	/**
+	 * The stored session is the same object the request has, so its
+	 * expiry is already up to date. `prune` catches up with the heap.
+	 */
+	async touch(session: Session) {}
+
+	async prune() {
+		const now = Date.now();
+		let pruned = 0;
+
+		while ((this.expiries.peek()?.expiresAt ?? Infinity) <= now) {
+			const { session } = this.expiries.pop()!;
+
+			// The session was destroyed or replaced since this entry was pushed.
+			if (this.sessions.get(session.id) !== session) {
+				continue;
+			}
+
+			if (session.isExpired()) {
+				this.sessions.delete(session.id);
+				pruned++;
+			} else {
+				this.expiries.push({
+					session,
+					expiresAt: session.cookie.getExpires(),
+				});
+			}
+		}
+
+		return pruned;
+	}
+
+	async size() {
+		return this.sessions.size;
+	}
+
+	async updateUserSessions(userId: number, data: Record<string, any>) {
+		for (const session of this.sessions.values()) {
+			if (session.get("userId") === userId) {
+				Object.assign(session.data, data);
+				session.shouldRegenerate = true;
+			}
+		}
+	}
+
+	async destroyUserSessions(userId: number) {
+		for (const session of this.sessions.values()) {
+			if (session.get("userId") === userId) {
+				this.sessions.delete(session.id);
+			}
+		}
+	}
+}
@@ -0,0 +1,146 @@
+import postgres from "postgres";
+import Session from "./Session";
+import SessionStore from "./SessionStore";
+
+interface SessionRow {
+	id: string;
+	data: Record<string, any>;
+	should_regenerate: boolean;
+	created_at: Date;
+	expires_at: Date;
+}
+
+/**
+ * Keeps sessions in the `sessions` table, so that they survive
+ * restarts and can be shared by several server processes.
+ * The session data is stored as JSON, which means that dates
+ * stored in a session come back as strings.
+ * @example new Server({ ...options, sessionStore: new PostgresSessionStore(sql) })
+ */
+export default class PostgresSessionStore implements SessionStore {
+	constructor(private sql: postgres.Sql<any>) {}
+
+	async get(sessionId: string) {
+		const connection = await this.sql.reserve();
+
+		const [row] = await connection<SessionRow[]>`
+			SELECT * FROM sessions
+			WHERE id = ${sessionId} AND expires_at > NOW()
+		`;
+
+		await connection.release();
+
+		if (!row) {
+			return undefined;
+		}
+
+		const session = new Session(row.id, row.data);
+		session.cookie.expires = row.expires_at;
+		session.createdAt = row.created_at.getTime();
+		session.shouldRegenerate = row.should_regenerate;
+
+		return session;
+	}
+
+	/**
+	 * @see https://www.postgresql.org/docs/current/sql-insert.html#SQL-ON-CONFLICT
+	 */
+	async set(session: Session) {
+		const connection = await this.sql.reserve();
+
+		await connection`
+			INSERT INTO sessions
+				${this.sql({
+					id: session.id,
+					data: this.sql.json(session.data),
+					should_regenerate: session.shouldRegenerate,
+					created_at: new Date(session.createdAt),
+					expires_at: session.cookie.expires,
+				})}
+			ON CONFLICT (id) DO UPDATE
+			SET data = EXCLUDED.data,
+				should_regenerate = EXCLUDED.should_regenerate,
+				created_at = EXCLUDED.created_at,
+				expires_at = EXCLUDED.expires_at
+		`;
+
+		await connection.release();
+	}
+
+	async destroy(sessionId: string) {
+		const connection = await this.sql.reserve();
+
+		await connection`
+			DELETE FROM sessions
+			WHERE id = ${sessionId}
+		`;
+
+		await connection.release();
+	}
+
+	async touch(session: Session) {
+		const connection = await this.sql.reserve();
+
+		await connection`
+			UPDATE sessions
+			SET expires_at = ${session.cookie.expires}
+			WHERE id = ${session.id}
+		`;
+
+		await connection.release();
+	}
+
+	async prune() {
+		const connection = await this.sql.reserve();
+
+		const { count } = await connection`
+			DELETE FROM sessions
+			WHERE expires_at <= NOW()
+		`;
+
+		await connection.release();
+
+		return count;
+	}
+
+	async size() {
+		const connection = await this.sql.reserve();
+
+		const [{ count }] = await connection`
+			SELECT COUNT(*) FROM sessions
+			WHERE expires_at > NOW()
+		`;
+
+		await connection.release();
+
+		return Number(count);
+	}
+
+	/**
+	 * `||` merges two JSONB objects, with the keys of the right one winning.
+	 * @see https://www.postgresql.org/docs/current/functions-json.html
+	 */
+	async updateUserSessions(userId: number, data: Record<string, any>) {
+		const connection = await this.sql.reserve();
+
+		await connection`
+			UPDATE sessions
+			SET data = data || ${this.sql.json(data)},
+				should_regenerate = TRUE
+			WHERE data->>'userId' = ${String(userId)}
+		`;
+
+		await connection.release();
+	}
+
+	async destroyUserSessions(userId: number) {
+		const connection = await this.sql.reserve();
+
+		await connection`
+			DELETE FROM sessions
+			WHERE data->>'userId' = ${String(userId)}
+		`;
+
+		await connection.release();
+	}
+}
@@ -1,10 +1,35 @@
 import Cookie from "./Cookie";
 
+export type FlashType = "success" | "error" | "info";
+
+export interface FlashMessage {
+	type: FlashType;
+	message: string;
+}
+
 export default class Session {
 	id: string;
 	data: Record<string, any>;
 	cookie: Cookie;
 
+	/**
+	 * When the session started, in milliseconds since the epoch.
+	 * Sessions can't be extended past their absolute lifetime.
+	 * @see SessionManager.touch
+	 */
+	createdAt = Date.now();
+
+	/**
+	 * Set when something about the user changed outside of their own
+	 * request, so that the session gets a new ID on their next request.
+	 */
+	shouldRegenerate = false;
+
+	/**
+	 * Whether the data changed since the session was last saved to the store.
+	 */
+	isModified = false;
+
 	constructor(id: string, data = {}) {
 		this.id = id;
 		this.data = data;
@@ -17,12 +42,43 @@ export default class Session {
 
 	set(name: string, value: any) {
 		this.data[name] = value;
+		this.isModified = true;
 	}
 
 	exists(name: string) {
 		return this.get(name) !== null;
 	}
 
+	/**
+	 * Gets a value and removes it from the session, for
+	 * values that should only be used once.
+	 */
+	pull(name: string) {
+		const value = this.get(name);
+
+		if (name in this.data) {
+			delete this.data[name];
+			this.isModified = true;
+		}
+
+		return value;
+	}
+
+	/**
+	 * Adds a message to show on the next page that is rendered,
+	 * which is usually the one the user is redirected to.
+	 * @see Response.send
+	 */
+	flash(type: FlashType, message: string) {
+		const messages: FlashMessage[] = this.get("flash") ?? [];
+
+		this.set("flash", [...messages, { type, message }]);
+	}
+
+	isEmpty() {
+		return Object.keys(this.data).length === 0;
+	}
+
 	refresh(time = Cookie.DEFAULT_TIME) {
 		this.cookie.setExpires(time);
 	}
@@ -30,6 +86,7 @@ export default class Session {
 	destroy() {
 		this.data = {};
 		this.cookie.setExpires();
+		this.isModified = true;
 	}
 
 	isExpired() {
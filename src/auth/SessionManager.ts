@@ -1,17 +1,65 @@
 import crypto from "crypto";
 import Session from "./Session";
+import Cookie from "./Cookie";
+import SessionStore from "./SessionStore";
+import MemorySessionStore from "./MemorySessionStore";
+
+/**
+ * How long sessions last, in milliseconds.
+ * @property idleTimeout How long a session lasts without any requests.
+ * Every request of a logged in user starts this over.
+ * @property absoluteTimeout How long a session lasts no matter how active
+ * the user is. After that, the user has to log in again.
+ * @see https://cheatsheetseries.owasp.org/cheatsheets/Session_Management_Cheat_Sheet.html#session-expiration
+ */
+export interface SessionTimeouts {
+	idleTimeout: number;
+	absoluteTimeout: number;
+}
+
+/**
+ * What the SessionManager has done since the server started, for monitoring.
+ * @property size How many sessions are in the store right now.
+ * @property hits How many lookups found a session.
+ * @property misses How many lookups found no session, or an expired one.
+ * @property regenerated How many sessions were given a new ID.
+ * @property destroyed How many sessions were destroyed, for example by logging out.
+ * @property expired How many expired sessions were removed by the clean up.
+ */
+export interface SessionStats {
+	size: number;
+	hits: number;
+	misses: number;
+	regenerated: number;
+	destroyed: number;
+	expired: number;
+}
 
 /**
  * The SessionManager class is a singleton that manages all sessions
- * by creating new sessions and removing expired sessions.
+ * by creating new sessions and removing expired sessions. The sessions
+ * themselves are kept in a SessionStore, which is in memory by default.
  */
 export default class SessionManager {
 	private static instance: SessionManager;
-	sessions: Session[];
+	static DEFAULT_TIMEOUTS: SessionTimeouts = {
+		idleTimeout: Cookie.DEFAULT_TIME,
+		absoluteTimeout: 1000 * 60 * 60 * 8, // Milliseconds * seconds * minutes * hours.
+	};
+
+	store: SessionStore;
+	timeouts = SessionManager.DEFAULT_TIMEOUTS;
 	cleanUp: NodeJS.Timeout;
+	private counts: Omit<SessionStats, "size"> = {
+		hits: 0,
+		misses: 0,
+		regenerated: 0,
+		destroyed: 0,
+		expired: 0,
+	};
 
 	private constructor() {
-		this.sessions = [];
+		this.store = new MemorySessionStore();
 
 		// Run clean up every second.
 		this.cleanUp = setInterval(this.cleanUpSessions, 1000);
@@ -31,40 +79,191 @@ export default class SessionManager {
 	};
 
 	/**
-	 * Creates a new session and adds it to the sessions array.
-	 * The session ID is a random 4-character hex string.
+	 * Replaces the store that sessions are kept in. Sessions
+	 * in the previous store are not carried over.
+	 */
+	setStore(store: SessionStore) {
+		this.store = store;
+	}
+
+	/**
+	 * Changes how long sessions last. Sessions that already
+	 * exist pick up the new timeouts on their next request.
+	 */
+	setTimeouts(timeouts: Partial<SessionTimeouts>) {
+		this.timeouts = { ...this.timeouts, ...timeouts };
+	}
+
+	/**
+	 * Creates a new, empty session. Most requests come from visitors who
+	 * never put anything in their session, so the session is only added
+	 * to the store once something is saved in it.
+	 * @see SessionManager.save
 	 * @returns A new session.
 	 */
-	createSession() {
-		const sessionId = crypto.randomBytes(2).toString("hex");
-		const session = new Session(sessionId);
+	async createSession() {
+		const session = new Session(await this.createSessionId());
+
+		session.refresh(this.timeouts.idleTimeout);
+
+		return session;
+	}
+
+	/**
+	 * The session ID is all that identifies a logged in user, so it has
+	 * to be impossible to guess. 16 random bytes gives 128 bits of entropy,
+	 * which is what OWASP recommends at the very least. A collision is
+	 * astronomically unlikely, but it is cheap to make sure.
+	 * @see https://cheatsheetseries.owasp.org/cheatsheets/Session_Management_Cheat_Sheet.html#session-id-entropy
+	 * @returns A random 32-character hex string that isn't used by any session.
+	 */
+	private async createSessionId() {
+		let sessionId: string;
+
+		do {
+			sessionId = crypto.randomBytes(16).toString("hex");
+		} while (await this.store.get(sessionId));
+
+		return sessionId;
+	}
+
+	/**
+	 * @returns The session with the given sessionId, if it exists and is
+	 * within both its idle and absolute timeouts.
+	 */
+	async get(sessionId: string) {
+		let session = await this.store.get(sessionId);
 
-		this.sessions.push(session);
+		// Stores only know when the session expires, which might
+		// be later if the absolute timeout was lowered since.
+		if (
+			session &&
+			Date.now() >= session.createdAt + this.timeouts.absoluteTimeout
+		) {
+			await this.destroy(session.id);
+			session = undefined;
+		}
+
+		if (session) {
+			this.counts.hits++;
+		} else {
+			this.counts.misses++;
+		}
 
 		return session;
 	}
 
 	/**
-	 * Searches for a session with the given sessionId.
-	 * Uses linear search to find the session which
-	 * isn't the most efficient way to find something,
-	 * but it's good enough for this assignment.
-	 * @returns The session with the given sessionId.
+	 * Writes the changes made to the session during a request back to
+	 * the store. Sessions that were destroyed are removed from it, and
+	 * sessions that are empty aren't stored at all.
+	 */
+	async save(session: Session) {
+		if (session.isExpired()) {
+			await this.destroy(session.id);
+		} else if (session.isModified && session.isEmpty()) {
+			await this.store.destroy(session.id);
+		} else if (session.isModified) {
+			await this.store.set(session);
+		}
+
+		session.isModified = false;
+	}
+
+	/**
+	 * Removes the session with the given sessionId from the store.
+	 */
+	async destroy(sessionId: string) {
+		await this.store.destroy(sessionId);
+		this.counts.destroyed++;
+	}
+
+	/**
+	 * Extends the session by the idle timeout (sliding expiration), but
+	 * never past its absolute lifetime, and saves the new expiry without
+	 * saving its data. Sessions that are past their absolute lifetime
+	 * expire right away.
 	 */
-	get(sessionId: string) {
-		return this.sessions.find((session) => session.id === sessionId);
+	async touch(session: Session) {
+		const { idleTimeout, absoluteTimeout } = this.timeouts;
+		const expiresAt = Math.min(
+			Date.now() + idleTimeout,
+			session.createdAt + absoluteTimeout,
+		);
+
+		session.cookie.expires = new Date(expiresAt);
+
+		await this.store.touch(session);
 	}
 
 	/**
-	 * Removes all expired sessions from the sessions array.
-	 * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/filter
+	 * Replaces the session with a new one that has a new ID but the same
+	 * data, start time and expiry. Doing this whenever a user logs in or their
+	 * privileges change means that a session ID an attacker planted
+	 * or learned beforehand is worthless afterwards (session fixation).
+	 * @see https://owasp.org/www-community/attacks/Session_fixation
+	 * @returns The new session. The old one no longer exists.
 	 */
-	cleanUpSessions() {
-		this.sessions = this.sessions?.filter(
-			(session) => !session.isExpired(),
+	async regenerate(session: Session) {
+		const newSession = new Session(
+			await this.createSessionId(),
+			session.data,
 		);
+
+		newSession.cookie.expires = session.cookie.expires;
+		newSession.createdAt = session.createdAt;
+
+		if (!newSession.isEmpty()) {
+			await this.store.set(newSession);
+		}
+
+		await this.store.destroy(session.id);
+		this.counts.regenerated++;
+
+		return newSession;
+	}
+
+	/**
+	 * Updates the data of every session the user is logged in with, for
+	 * example when an admin changes the user's privileges. Those sessions
+	 * are flagged so that they are regenerated on their next request,
+	 * since we can't send the user a new cookie from someone else's request.
+	 */
+	async updateUserSessions(userId: number, data: Record<string, any>) {
+		await this.store.updateUserSessions(userId, data);
+	}
+
+	/**
+	 * Logs the user out everywhere, for example after their password
+	 * was reset, since whoever knew the old one may still be logged in.
+	 */
+	async destroyUserSessions(userId: number) {
+		await this.store.destroyUserSessions(userId);
+	}
+
+	/**
+	 * @returns How many sessions are in the store.
+	 */
+	async size() {
+		return this.store.size();
 	}
 
+	async stats(): Promise<SessionStats> {
+		return { size: await this.size(), ...this.counts };
+	}
+
+	/**
+	 * Removes all expired sessions from the store. Errors are only
+	 * logged, since there's no request to send them back to.
+	 */
+	cleanUpSessions = async () => {
+		try {
+			this.counts.expired += await this.store.prune();
+		} catch (error) {
+			console.error(`Error while cleaning up sessions: ${error}`);
+		}
+	};
+
 	stopCleanUp() {
 		process.nextTick(clearInterval, this.cleanUp);
 	}
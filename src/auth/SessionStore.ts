@@ -0,0 +1,57 @@
+import Session from "./Session";
+
+/**
+ * Where the SessionManager keeps sessions. Keeping sessions in memory is
+ * the simplest, but they vanish when the server restarts and can't be
+ * shared between processes, which is what a database-backed store is for.
+ * @see MemorySessionStore
+ * @see PostgresSessionStore
+ */
+export default interface SessionStore {
+	/**
+	 * @returns The session with the given ID, or `undefined` if it doesn't exist or has expired.
+	 */
+	get(sessionId: string): Promise<Session | undefined>;
+
+	/**
+	 * Adds the session to the store, or replaces the stored one with the same ID.
+	 */
+	set(session: Session): Promise<void>;
+
+	/**
+	 * Removes the session with the given ID from the store.
+	 */
+	destroy(sessionId: string): Promise<void>;
+
+	/**
+	 * Updates when the session expires without touching its data.
+	 */
+	touch(session: Session): Promise<void>;
+
+	/**
+	 * Removes all expired sessions from the store.
+	 * @returns How many sessions were removed.
+	 */
+	prune(): Promise<number>;
+
+	/**
+	 * @returns How many sessions are in the store.
+	 */
+	size(): Promise<number>;
+
+	/**
+	 * Merges the data into every session of the user and flags
+	 * those sessions to be regenerated on their next request.
+	 * @see SessionManager.updateUserSessions
+	 */
+	updateUserSessions(
+		userId: number,
+		data: Record<string, any>,
+	): Promise<void>;
+
+	/**
+	 * Removes every session of the user.
+	 * @see SessionManager.destroyUserSessions
+	 */
+	destroyUserSessions(userId: number): Promise<void>;
+}
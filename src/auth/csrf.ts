@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import { Middleware } from "../router/Router";
+import Request from "../router/Request";
+import { StatusCode } from "../router/Response";
+import Session from "./Session";
+
+/**
+ * Methods that must not change anything, so they don't need a token.
+ */
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Forms send the token in this field, JSON clients in the `X-CSRF-Token` header.
+ */
+export const CSRF_FIELD = "_csrf";
+
+/**
+ * @returns The session's CSRF token. The token is created the first time
+ * it's needed, so only visitors who are shown a form get a session.
+ * @see https://cheatsheetseries.owasp.org/cheatsheets/Cross-Site_Request_Forgery_Prevention_Cheat_Sheet.html#synchronizer-token-pattern
+ */
+export const getCsrfToken = (session: Session): string => {
+	let token = session.get("csrfToken");
+
+	if (!token) {
+		token = crypto.randomBytes(32).toString("base64url");
+		session.set("csrfToken", token);
+	}
+
+	return token;
+};
+
+/**
+ * Requests that authenticate with a bearer token don't rely on cookies,
+ * so another site can't make a browser send them on its own. That only
+ * holds while no cookies are sent: anyone can add an `Authorization`
+ * header, and the session or remember me cookie would still log them in.
+ */
+const isBearerRequest = (req: Request) =>
+	/^Bearer\s/i.test(req.req.headers.authorization ?? "") &&
+	!req.req.headers.cookie;
+
+/**
+ * Browsers send `Origin` with cross-site POST requests, and `Referer`
+ * unless a referrer policy leaves it out. Either has to point to this
+ * host. When neither is sent, the token is all there is to check.
+ */
+const isSameOrigin = (req: Request) => {
+	const source = req.req.headers.origin ?? req.req.headers.referer;
+
+	if (!source) {
+		return true;
+	}
+
+	try {
+		return new URL(source).host === req.req.headers.host;
+	} catch {
+		// Sandboxed pages and privacy settings send "Origin: null".
+		return false;
+	}
+};
+
+const isValidToken = (expected: unknown, actual: unknown) => {
+	if (typeof expected !== "string" || typeof actual !== "string") {
+		return false;
+	}
+
+	const expectedBuffer = Buffer.from(expected);
+	const actualBuffer = Buffer.from(actual);
+
+	return (
+		expectedBuffer.length === actualBuffer.length &&
+		crypto.timingSafeEqual(expectedBuffer, actualBuffer)
+	);
+};
+
+/**
+ * Rejects state-changing requests that didn't come from one of our own
+ * pages with a 403. The method the form asks for counts too, so a
+ * `method=DELETE` field can't sneak past as a GET. It has to run after
+ * `bodyParser`, since forms send the token in their body.
+ */
+export const verifyCsrfToken: Middleware = async (req, res, next) => {
+	const methods = [req.req.method, req.getMethod()].map((method) =>
+		method?.toUpperCase(),
+	);
+
+	if (
+		methods.every((method) => SAFE_METHODS.includes(method!)) ||
+		isBearerRequest(req)
+	) {
+		await next();
+		return;
+	}
+
+	const sameOrigin = isSameOrigin(req);
+	const token = req.body[CSRF_FIELD] ?? req.req.headers["x-csrf-token"];
+
+	if (!sameOrigin || !isValidToken(req.session.get("csrfToken"), token)) {
+		await res.send({
+			statusCode: StatusCode.Forbidden,
+			message: sameOrigin
+				? "Invalid CSRF token."
+				: "Cross-site request blocked.",
+			template: "ErrorView",
+			payload: {
+				title: "Error",
+				error: "This form has expired. Please go back, reload the page and try again.",
+			},
+		});
+		return;
+	}
+
+	// The token isn't part of what the handlers were sent.
+	delete req.body[CSRF_FIELD];
+
+	await next();
+};
@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { getSecrets } from "./secrets";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Derives a 256-bit encryption key from the secret, so that the
+ * same secret never serves as both a signing and an encryption key.
+ * @see https://nodejs.org/api/crypto.html#cryptohkdfsyncdigest-ikm-salt-info-keylen
+ */
+const deriveKey = (secret: string) => {
+	return Buffer.from(
+		crypto.hkdfSync("sha256", secret, "", "cookie-encryption", 32),
+	);
+};
+
+/**
+ * Encrypts the value with AES-GCM, which also authenticates it, so
+ * the client can neither read the value nor change it unnoticed.
+ * @see https://nodejs.org/api/crypto.html#class-cipher
+ * @returns The IV, the authentication tag and the ciphertext, encoded as base64url.
+ */
+export const encrypt = (value: string) => {
+	const iv = crypto.randomBytes(IV_LENGTH);
+	const cipher = crypto.createCipheriv(
+		ALGORITHM,
+		deriveKey(getSecrets()[0]),
+		iv,
+	);
+	const ciphertext = Buffer.concat([
+		cipher.update(value, "utf8"),
+		cipher.final(),
+	]);
+
+	return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+		"base64url",
+	);
+};
+
+/**
+ * Tries every key, so that values encrypted before
+ * the key was rotated can still be decrypted.
+ * @returns The original value, or `null` if it was tampered with or no key fits.
+ */
+export const decrypt = (encryptedValue: string) => {
+	const data = Buffer.from(encryptedValue, "base64url");
+
+	if (data.length < IV_LENGTH + TAG_LENGTH) {
+		return null;
+	}
+
+	const iv = data.subarray(0, IV_LENGTH);
+	const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+	const ciphertext = data.subarray(IV_LENGTH + TAG_LENGTH);
+
+	for (const secret of getSecrets()) {
+		try {
+			const decipher = crypto.createDecipheriv(
+				ALGORITHM,
+				deriveKey(secret),
+				iv,
+			);
+			decipher.setAuthTag(tag);
+
+			return Buffer.concat([
+				decipher.update(ciphertext),
+				decipher.final(),
+			]).toString("utf8");
+		} catch {
+			// The authentication tag didn't match, so try the next key.
+		}
+	}
+
+	return null;
+};
@@ -0,0 +1,76 @@
+import { Middleware } from "../router/Router";
+import { StatusCode } from "../router/Response";
+
+/*
+ * Route guards are middlewares that only let a request through to the
+ * route handler if the session meets some condition. They are passed
+ * before the handler when registering a route, for example:
+ * router.get("/todos", requireAuth, this.getTodoList);
+ */
+
+/**
+ * Only lets logged in users through. Anyone else gets a 401, or is
+ * sent to the login form if they're using a browser.
+ */
+export const requireAuth: Middleware = async (req, res, next) => {
+	if (!req.session.exists("userId")) {
+		await res.send({
+			statusCode: StatusCode.Unauthorized,
+			message: "Unauthorized",
+			redirect: "/login",
+		});
+		return;
+	}
+
+	await next();
+};
+
+/**
+ * Only lets users who have verified their email through, so that an
+ * account made with someone else's email stays read-only. Use it after
+ * `requireAuth`. Browsers are sent back to the todo list with a flash.
+ */
+export const requireVerified: Middleware = async (req, res, next) => {
+	if (!req.session.get("isVerified")) {
+		await res.send({
+			statusCode: StatusCode.Forbidden,
+			message: "Email not verified",
+			flash: "Please verify your email address before making changes.",
+			redirect: "/todos",
+		});
+		return;
+	}
+
+	await next();
+};
+
+/**
+ * Only lets admins through. Anyone else gets a 403. Browsers that aren't
+ * logged in are sent to the login form, and browsers of logged in users
+ * who aren't admins are shown an error page.
+ */
+export const requireAdmin: Middleware = async (req, res, next) => {
+	if (!req.session.exists("userId")) {
+		await res.send({
+			statusCode: StatusCode.Forbidden,
+			message: "Unauthorized",
+			redirect: "/login",
+		});
+		return;
+	}
+
+	if (!req.session.get("isAdmin")) {
+		await res.send({
+			statusCode: StatusCode.Forbidden,
+			message: "Unauthorized",
+			template: "ErrorView",
+			payload: {
+				title: "Error",
+				error: "You are not authorized to view this page.",
+			},
+		});
+		return;
+	}
+
+	await next();
+};
@@ -0,0 +1,30 @@
+import "dotenv/config";
+import crypto from "crypto";
+
+/**
+ * The keys used to sign and encrypt cookies, newest first. New cookies
+ * always use the first key, and cookies are checked against all of
+ * them, so a key can be rotated by putting a new one in front of it.
+ * Once every cookie made with the old key has expired, it can go.
+ *
+ * Set `COOKIE_SECRET` in `.env` (separate keys with commas) or pass
+ * `cookieSecrets` to the Server, so that cookies stay valid when the
+ * server restarts. Without either, a random key is generated every
+ * time the server starts.
+ * @example COOKIE_SECRET=new-secret,old-secret
+ */
+let secrets: string[] = process.env.COOKIE_SECRET
+	? process.env.COOKIE_SECRET.split(",").map((secret) => secret.trim())
+	: [crypto.randomBytes(32).toString("hex")];
+
+export const getSecrets = () => {
+	return secrets;
+};
+
+export const setSecrets = (newSecrets: string[]) => {
+	if (newSecrets.length === 0 || newSecrets.some((secret) => !secret)) {
+		throw new Error("Cookie secrets can't be empty.");
+	}
+
+	secrets = newSecrets;
+};
@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import { getSecrets } from "./secrets";
+
+const createSignature = (value: string, secret: string) => {
+	return crypto
+		.createHmac("sha256", secret)
+		.update(value)
+		.digest("base64url");
+};
+
+/**
+ * Appends an HMAC of the value, so that we can tell later
+ * whether the value was tampered with by the client.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto/sign#hmac
+ * @example sign("abc") => "abc.Zm9vYmFy..."
+ */
+export const sign = (value: string) => {
+	return `${value}.${createSignature(value, getSecrets()[0])}`;
+};
+
+/**
+ * Checks the signature against every key, so that values
+ * signed before the key was rotated are still valid.
+ * @returns The original value if the signature is valid, otherwise `null`.
+ * @example unsign("abc.Zm9vYmFy...") => "abc"
+ */
+export const unsign = (signedValue: string) => {
+	const index = signedValue.lastIndexOf(".");
+
+	if (index === -1) {
+		return null;
+	}
+
+	const value = signedValue.slice(0, index);
+	const signature = Buffer.from(signedValue.slice(index + 1));
+
+	for (const secret of getSecrets()) {
+		const expected = Buffer.from(createSignature(value, secret));
+
+		// Comparing in constant time doesn't give away how much of the signature was right.
+		if (
+			signature.length === expected.length &&
+			crypto.timingSafeEqual(signature, expected)
+		) {
+			return value;
+		}
+	}
+
+	return null;
+};
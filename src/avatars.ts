@@ -0,0 +1,66 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { IMAGES_PATH } from "./url";
+import { UploadedFile } from "./router/MultipartParser";
+
+/**
+ * The image types that can be used as a profile picture,
+ * mapped to the file extension they are stored with.
+ */
+export const AVATAR_TYPES: Record<string, string> = {
+	"image/png": "png",
+	"image/jpeg": "jpg",
+	"image/gif": "gif",
+	"image/webp": "webp",
+};
+
+/**
+ * The maximum size of a profile picture in bytes.
+ */
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Directory inside the images path where profile pictures are stored.
+ */
+const AVATARS_DIRECTORY = "avatars";
+
+/**
+ * Checks the type detected from the file's contents, not the
+ * one the client declared, since the latter can be anything.
+ */
+export const isAvatarType = (file: UploadedFile) => {
+	return file.mimeType !== undefined && file.mimeType in AVATAR_TYPES;
+};
+
+/**
+ * Writes a profile picture to disk under a random name, since the
+ * file name sent by the client can't be trusted.
+ * @returns The path of the file relative to the images path, which is what
+ * gets stored in `users.profile`.
+ * @example saveAvatar(req.files.avatar) => "avatars/0b3e....png"
+ */
+export const saveAvatar = async (file: UploadedFile) => {
+	const filename = `${crypto.randomUUID()}.${AVATAR_TYPES[file.mimeType!]}`;
+	const directory = path.join(IMAGES_PATH, AVATARS_DIRECTORY);
+
+	await fs.mkdir(directory, { recursive: true });
+	await fs.writeFile(path.join(directory, filename), file.data);
+
+	return `${AVATARS_DIRECTORY}/${filename}`;
+};
+
+/**
+ * Deletes a profile picture that was saved by `saveAvatar`.
+ * Anything else, like a link to an image hosted elsewhere, is left alone.
+ */
+export const deleteAvatar = async (profile?: string) => {
+	if (!profile?.startsWith(`${AVATARS_DIRECTORY}/`)) {
+		return;
+	}
+
+	await fs.rm(
+		path.join(IMAGES_PATH, AVATARS_DIRECTORY, path.basename(profile)),
+		{ force: true },
+	);
+};
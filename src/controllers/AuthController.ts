@@ -1,39 +1,446 @@
 import postgres from "postgres";
-import Router from "../router/Router";
+import Router, { Middleware } from "../router/Router";
 import Request from "../router/Request";
-import Response from "../router/Response";
+import Response, { StatusCode } from "../router/Response";
+import User, { InvalidCredentialsError } from "../models/User";
+import UserSettings from "../models/UserSettings";
+import RememberToken, { REMEMBER_TOKEN_TIME } from "../models/RememberToken";
+import LoginAttempt, {
+	TooManyLoginAttemptsError,
+} from "../models/LoginAttempt";
+import Cookie from "../auth/Cookie";
+import SessionManager from "../auth/SessionManager";
+import { getCsrfToken } from "../auth/csrf";
+import PasswordResetToken from "../models/PasswordResetToken";
+import Mailer from "../mail/Mailer";
+import { getPath } from "../url";
+import { createUTCDate } from "../utils";
+
+/**
+ * How long the login form remembers the last email that was used.
+ */
+const EMAIL_COOKIE_TIME = 1000 * 60 * 60 * 24 * 365; // Milliseconds * seconds * minutes * hours * days.
 
 export default class AuthController {
 	private sql: postgres.Sql<any>;
+	private mailer: Mailer;
 
-	constructor(sql: postgres.Sql<any>) {
+	constructor(sql: postgres.Sql<any>, mailer: Mailer) {
 		this.sql = sql;
+		this.mailer = mailer;
 	}
 
 	registerRoutes(router: Router) {
+		// Runs before every route so that remembered users are logged back in first.
+		router.use(this.restoreSession);
+
 		router.get("/register", this.getRegistrationForm);
 		router.get("/login", this.getLoginForm);
 		router.post("/login", this.login);
 		router.get("/logout", this.logout);
+		router.post("/logout", this.logout);
+		router.get("/csrf-token", this.getCsrfToken);
+		router.get("/forgot-password", this.getForgotPasswordForm);
+		router.post("/forgot-password", this.sendPasswordReset);
+		router.get("/reset-password/:token", this.getResetPasswordForm);
+		router.post("/reset-password/:token", this.resetPassword);
 	}
 
 	/**
-	 * TODO: Render the registration form.
+	 * Renders the registration form. If the form was previously
+	 * submitted with errors, the error is flashed and the
+	 * submitted email is filled back in.
+	 *
+	 * @example GET /register
+	 */
+	getRegistrationForm = async (req: Request, res: Response) => {
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Registration form",
+			template: "RegistrationFormView",
+			payload: {
+				title: "Register",
+			},
+		});
+	};
+
+	/**
+	 * Renders the login form. If the form was previously
+	 * submitted with errors, the error is flashed and the submitted
+	 * email is filled back in. Otherwise, the email is filled in if
+	 * the user asked to be remembered.
+	 *
+	 * @example GET /login
 	 */
-	getRegistrationForm = async (req: Request, res: Response) => {};
+	getLoginForm = async (req: Request, res: Response) => {
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Login form",
+			template: "LoginFormView",
+			payload: {
+				title: "Login",
+				email: req.findCookie("email")?.value,
+			},
+		});
+	};
 
 	/**
-	 * TODO: Render the login form.
+	 * Hands out the session's CSRF token to JSON clients, which have no form
+	 * to read it from. They send it back in the `X-CSRF-Token` header.
+	 *
+	 * @example GET /csrf-token
 	 */
-	getLoginForm = async (req: Request, res: Response) => {};
+	getCsrfToken = async (req: Request, res: Response) => {
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "CSRF token retrieved",
+			payload: { csrfToken: getCsrfToken(req.session) },
+		});
+	};
 
 	/**
-	 * TODO: Handle login form submission.
+	 * Checks the submitted credentials against the users table. If they
+	 * match, the user's ID is stored in the session so that subsequent
+	 * requests know who is logged in. If `remember` is checked, the user
+	 * also gets a long-lived token to log them back in once the session
+	 * expires, and the login form will remember their email.
+	 * Failed attempts are counted per IP and per account, and once
+	 * either runs out of attempts the client gets a 429 until the
+	 * time in `Retry-After` has passed.
+	 *
+	 * @example POST /login { "email": "user@email.com", "password": "password" }
+	 * @example POST /login { "email": "user@email.com", "password": "password", "remember": "on" }
 	 */
-	login = async (req: Request, res: Response) => {};
+	login = async (req: Request, res: Response) => {
+		const { email, password, remember } = req.body;
+
+		if (!email) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Email is required.",
+				redirect: "/login",
+			});
+			return;
+		}
+
+		if (!password) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Password is required.",
+				redirect: "/login",
+			});
+			return;
+		}
+
+		let user: User;
+
+		try {
+			await LoginAttempt.check(this.sql, req.getIp(), email);
+			user = await User.login(this.sql, email, password);
+		} catch (error) {
+			if (error instanceof TooManyLoginAttemptsError) {
+				// A redirect can't carry a 429, so browsers are shown the form right away.
+				res.res.setHeader("Retry-After", String(error.retryAfter));
+				req.session.flash("error", error.message);
+				await res.send({
+					statusCode: StatusCode.TooManyRequests,
+					message: error.message,
+					template: "LoginFormView",
+					payload: { title: "Login", email },
+				});
+				return;
+			}
+
+			if (error instanceof InvalidCredentialsError) {
+				await LoginAttempt.fail(this.sql, req.getIp(), email);
+				await res.send({
+					statusCode: StatusCode.BadRequest,
+					message: error.message,
+					redirect: "/login",
+				});
+				return;
+			}
+
+			throw error;
+		}
+
+		await LoginAttempt.reset(this.sql, email);
+
+		await this.startSession(req, res, user);
+
+		if (remember) {
+			await this.rememberUser(res, user);
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Logged in successfully!",
+			payload: { user: user.props },
+			redirect: "/todos",
+		});
+	};
+
+	/**
+	 * Clears the session data and expires the session cookie.
+	 * The "remember me" token is revoked so it can't log anyone back in.
+	 *
+	 * @example GET /logout
+	 */
+	logout = async (req: Request, res: Response) => {
+		req.session.destroy();
+		res.clearCookie("session_id");
+
+		const token = this.getRememberToken(req);
+
+		if (token) {
+			await RememberToken.revoke(this.sql, token);
+		}
+
+		if (req.findCookie("remember_token")) {
+			res.clearCookie("remember_token");
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Logged out successfully!",
+			redirect: "/",
+		});
+	};
+
+	/**
+	 * Renders the form that asks for the email to send a reset link to.
+	 *
+	 * @example GET /forgot-password
+	 */
+	getForgotPasswordForm = async (req: Request, res: Response) => {
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Forgot password form",
+			template: "ForgotPasswordView",
+			payload: {
+				title: "Forgot Password",
+			},
+		});
+	};
+
+	/**
+	 * Emails a link to reset the password to the user with the given
+	 * email. The response is the same whether or not there is such a
+	 * user, so that the form can't be used to find out who has an account.
+	 *
+	 * @example POST /forgot-password { "email": "user@email.com" }
+	 */
+	sendPasswordReset = async (req: Request, res: Response) => {
+		const { email } = req.body;
+
+		if (!email) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Email is required.",
+				redirect: "/forgot-password",
+			});
+			return;
+		}
+
+		const user = await User.readByEmail(this.sql, email);
+
+		if (user) {
+			const token = await PasswordResetToken.create(
+				this.sql,
+				user.props.id!,
+			);
+
+			await this.mailer.send({
+				to: user.props.email,
+				subject: "Reset your password",
+				text: [
+					"Someone asked to reset the password of your account.",
+					"If it was you, follow this link within the next hour:",
+					"",
+					getPath("reset-password/:token", { token }),
+					"",
+					"If it wasn't you, you can ignore this email. Your password stays the same.",
+				].join("\n"),
+			});
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message:
+				"If an account with that email exists, a password reset link has been sent to it.",
+			redirect: "/login",
+		});
+	};
+
+	/**
+	 * Renders the form for choosing a new password, as long as the
+	 * link still works. Otherwise the user is sent back to ask for a new one.
+	 *
+	 * @example GET /reset-password/0b3e...
+	 */
+	getResetPasswordForm = async (
+		req: Request<{ token: string }>,
+		res: Response,
+	) => {
+		if (!(await PasswordResetToken.verify(this.sql, req.params.token))) {
+			await this.sendInvalidResetToken(res);
+			return;
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Reset password form",
+			template: "ResetPasswordView",
+			payload: {
+				title: "Reset Password",
+				token: req.params.token,
+			},
+		});
+	};
+
+	/**
+	 * Sets the new password and uses up the token. The user is logged out
+	 * everywhere and has to log in with the new password, and the
+	 * failed logins of the account are forgotten.
+	 *
+	 * @example POST /reset-password/0b3e... { "password": "new", "confirmPassword": "new" }
+	 */
+	resetPassword = async (req: Request<{ token: string }>, res: Response) => {
+		const { password, confirmPassword } = req.body;
+		const formPath = `/reset-password/${req.params.token}`;
+
+		if (!password) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Password is required.",
+				redirect: formPath,
+			});
+			return;
+		}
+
+		if (password !== confirmPassword) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Passwords do not match",
+				redirect: formPath,
+			});
+			return;
+		}
+
+		const userId = await PasswordResetToken.consume(
+			this.sql,
+			req.params.token,
+		);
+		const user = userId ? await User.read(this.sql, userId) : null;
+
+		if (!user) {
+			await this.sendInvalidResetToken(res);
+			return;
+		}
+
+		// Following the emailed link also proves that the email is theirs.
+		await user.update({
+			password,
+			verifiedAt: user.props.verifiedAt ?? createUTCDate(),
+		});
+		await RememberToken.revokeAll(this.sql, user.props.id!);
+		await LoginAttempt.reset(this.sql, user.props.email);
+		await SessionManager.getInstance().destroyUserSessions(user.props.id!);
+
+		// If the user reset their password while logged in, this request's
+		// session was one of them, and would be stored again on the way out.
+		if (req.session.get("userId") === user.props.id) {
+			req.session = await SessionManager.getInstance().createSession();
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Password reset successfully!",
+			flash: "Password reset successfully! You can now log in with your new password.",
+			redirect: "/login",
+		});
+	};
+
+	/**
+	 * Sends the user back to ask for a new link, since the one
+	 * they used was wrong, expired, or already used.
+	 */
+	private sendInvalidResetToken = async (res: Response) => {
+		await res.send({
+			statusCode: StatusCode.BadRequest,
+			message: "Password reset link is invalid or has expired.",
+			redirect: "/forgot-password",
+		});
+	};
+
+	/**
+	 * If nobody is logged in but the request has a valid "remember me"
+	 * token, the user it belongs to is logged back in. The token is
+	 * swapped for a new one every time, so a stolen token stops working
+	 * as soon as the real user comes back.
+	 */
+	restoreSession: Middleware = async (req, res, next) => {
+		const token = this.getRememberToken(req);
+
+		if (!req.session.exists("userId") && token) {
+			const userId = await RememberToken.verify(this.sql, token);
+			const user = userId ? await User.read(this.sql, userId) : null;
+
+			await RememberToken.revoke(this.sql, token);
+
+			if (user) {
+				await this.startSession(req, res, user);
+				await this.rememberUser(res, user);
+			} else {
+				res.clearCookie("remember_token");
+			}
+		}
+
+		await next();
+	};
+
+	/**
+	 * Stores what the rest of the app needs to know about the
+	 * logged in user in their session. The session gets a new ID
+	 * first, so that an ID handed out before logging in can't be
+	 * used to hijack the logged in session. The session's absolute
+	 * lifetime starts over, since the user just proved who they are.
+	 */
+	private startSession = async (req: Request, res: Response, user: User) => {
+		const session = await req.regenerateSession();
+
+		session.createdAt = Date.now();
+		await SessionManager.getInstance().touch(session);
+		res.setCookie(session.cookie);
+		req.session.set("userId", user.props.id);
+		req.session.set("isAdmin", user.props.isAdmin ?? false);
+		req.session.set("isVerified", Boolean(user.props.verifiedAt));
+		req.session.set("profile", user.props.profile ?? null);
+		req.session.set(
+			"settings",
+			(await UserSettings.read(this.sql, user.props.id!)).props,
+		);
+	};
+
+	/**
+	 * Issues a new "remember me" token and sets it, along with the
+	 * user's email for the login form, as long-lived cookies.
+	 */
+	private rememberUser = async (res: Response, user: User) => {
+		const token = await RememberToken.create(this.sql, user.props.id!);
+
+		res.setCookie(
+			new Cookie("remember_token", token, REMEMBER_TOKEN_TIME, {
+				signed: true,
+			}),
+		);
+		res.setCookie(new Cookie("email", user.props.email, EMAIL_COOKIE_TIME));
+	};
 
 	/**
-	 * TODO: Handle logout.
+	 * @returns The "remember me" token from the request, if its signature is valid.
 	 */
-	logout = async (req: Request, res: Response) => {};
+	private getRememberToken = (req: Request) => {
+		return req.findSignedCookie("remember_token")?.value || null;
+	};
 }
@@ -1,9 +1,19 @@
-import Todo, { TodoProps } from "../models/Todo";
+import Todo, {
+	InvalidCursorError,
+	MAX_PAGE_SIZE,
+	SORTABLE_COLUMNS,
+	TodoFilters,
+	TodoPage,
+	TodoProps,
+	isSortableColumn,
+} from "../models/Todo";
 import postgres from "postgres";
 import Request from "../router/Request";
 import Response, { StatusCode } from "../router/Response";
 import Router from "../router/Router";
+import SubTodo from "../models/SubTodo";
 import { createUTCDate } from "../utils";
+import { requireAuth, requireVerified } from "../auth/guards";
 
 /**
  * Controller for handling Todo CRUD operations.
@@ -21,21 +31,72 @@ export default class TodoController {
 	 * To register a route, call the corresponding method on
 	 * the router instance based on the HTTP method of the route.
 	 *
+	 * Every todo route is guarded by `requireAuth`, so the handlers
+	 * can rely on a user being logged in. Routes that change todos are
+	 * also guarded by `requireVerified`, so unverified users are read-only.
+	 *
 	 * @param router Router instance to register routes on.
 	 *
-	 * @example router.get("/todos", this.getTodoList);
+	 * @example router.get("/todos", requireAuth, this.getTodoList);
 	 */
 	registerRoutes(router: Router) {
-		router.get("/todos", this.getTodoList);
-		router.get("/todos/new", this.getNewTodoForm);
-		router.post("/todos", this.createTodo);
+		router.get("/todos", requireAuth, this.getTodoList);
+		router.get(
+			"/todos/new",
+			requireAuth,
+			requireVerified,
+			this.getNewTodoForm,
+		);
+		router.post("/todos", requireAuth, requireVerified, this.createTodo);
 
 		// Any routes that include an `:id` parameter should be registered last.
-		router.get("/todos/:id/edit", this.getEditTodoForm);
-		router.get("/todos/:id", this.getTodo);
-		router.put("/todos/:id", this.updateTodo);
-		router.delete("/todos/:id", this.deleteTodo);
-		router.put("/todos/:id/complete", this.completeTodo);
+		router.get(
+			"/todos/:id/edit",
+			requireAuth,
+			requireVerified,
+			this.getEditTodoForm,
+		);
+		router.get("/todos/:id", requireAuth, this.getTodo);
+		router.put("/todos/:id", requireAuth, requireVerified, this.updateTodo);
+		router.delete(
+			"/todos/:id",
+			requireAuth,
+			requireVerified,
+			this.deleteTodo,
+		);
+		router.put(
+			"/todos/:id/complete",
+			requireAuth,
+			requireVerified,
+			this.completeTodo,
+		);
+
+		// Sub-todos are always accessed through the todo they belong to.
+		router.get("/todos/:id/sub-todos", requireAuth, this.getSubTodoList);
+		router.post(
+			"/todos/:id/sub-todos",
+			requireAuth,
+			requireVerified,
+			this.createSubTodo,
+		);
+		router.put(
+			"/todos/:id/sub-todos/:subTodoId",
+			requireAuth,
+			requireVerified,
+			this.updateSubTodo,
+		);
+		router.delete(
+			"/todos/:id/sub-todos/:subTodoId",
+			requireAuth,
+			requireVerified,
+			this.deleteSubTodo,
+		);
+		router.put(
+			"/todos/:id/sub-todos/:subTodoId/complete",
+			requireAuth,
+			requireVerified,
+			this.completeSubTodo,
+		);
 	}
 
 	getNewTodoForm = async (req: Request, res: Response) => {
@@ -48,45 +109,89 @@ export default class TodoController {
 	};
 
 	getEditTodoForm = async (req: Request, res: Response) => {
-		const id = req.getId();
-		let todo: Todo | null = null;
+		const todo = await this.findOwnedTodo(req, res);
 
-		try {
-			todo = await Todo.read(this.sql, id);
-		} catch (error) {
-			const message = `Error while getting todo list: ${error}`;
-			console.error(message);
+		if (!todo) {
+			return;
 		}
 
 		await res.send({
 			statusCode: StatusCode.OK,
 			message: "Edit todo form",
 			template: "EditFormView",
-			payload: { todo: todo?.props, title: "Edit Todo" },
+			payload: { todo: todo.props, title: "Edit Todo" },
 		});
 	};
 
 	/**
 	 * This method should be called when a GET request is made to /todos.
 	 * It should retrieve all todos from the database and send them as a response.
+	 * The sort order and page size fall back to the user's settings.
 	 *
 	 * @param req The request object.
 	 * @param res The response object.
 	 *
 	 * @example GET /todos
+	 * @example GET /todos?status=complete&sortBy=dueAt&orderBy=desc
+	 * @example GET /todos?dueAfter=2024-03-01&dueBefore=2024-03-31
+	 * @example GET /todos?page=2&limit=50
+	 * @example GET /todos?cursor=eyJ2YWx1ZSI6MjAsImlkIjoyMCwiYmFja3dhcmQiOmZhbHNlLCJzb3J0QnkiOiJpZCIsIm9yZGVyQnkiOiJhc2MifQ&limit=50
 	 */
 	getTodoList = async (req: Request, res: Response) => {
-		let todos: Todo[] = [];
+		const userId = req.session.get("userId");
+
+		const searchParams = req.getSearchParams();
+		const filters = this.getTodoFilters(searchParams);
+		const settings = req.getSettings();
+		const sortBy = searchParams.get("sortBy") ?? settings.sortBy;
+		const orderBy =
+			(searchParams.get("orderBy") ?? settings.orderBy) === "desc"
+				? "desc"
+				: "asc";
+
+		if (!isSortableColumn(sortBy)) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: `Cannot sort by ${sortBy}.`,
+				redirect: "/todos",
+			});
+			return;
+		}
+
+		const limit = Math.min(
+			Math.max(Number(searchParams.get("limit")) || settings.pageSize, 1),
+			MAX_PAGE_SIZE,
+		);
+		const cursor = searchParams.get("cursor") ?? undefined;
+		const page = cursor
+			? null
+			: Math.max(Math.floor(Number(searchParams.get("page"))) || 1, 1);
+
+		let todoPage: TodoPage;
 
 		try {
-			// This will be broken until you implement users since it now requires a user ID.
-			todos = await Todo.readAll(this.sql);
+			todoPage = await Todo.readPage(
+				this.sql,
+				userId,
+				filters,
+				sortBy,
+				orderBy,
+				{ limit, cursor, offset: page ? (page - 1) * limit : 0 },
+			);
 		} catch (error) {
-			const message = `Error while getting todo list: ${error}`;
-			console.error(message);
+			if (error instanceof InvalidCursorError) {
+				await res.send({
+					statusCode: StatusCode.BadRequest,
+					message: error.message,
+					redirect: "/todos",
+				});
+				return;
+			}
+
+			throw error;
 		}
 
-		const todoList = todos.map((todo) => {
+		const todoList = todoPage.todos.map((todo) => {
 			return {
 				...todo.props,
 				isComplete: todo.props.status === "complete",
@@ -99,6 +204,22 @@ export default class TodoController {
 			payload: {
 				title: "Todo List",
 				todos: todoList,
+				query: Object.fromEntries(searchParams.entries()),
+				statusOptions: ["incomplete", "complete"].map((status) => ({
+					value: status,
+					selected: status === filters.status,
+				})),
+				sortOptions: SORTABLE_COLUMNS.map((column) => ({
+					value: column,
+					selected: column === sortBy,
+				})),
+				isDescending: orderBy === "desc",
+				pagination: this.getPaginationLinks(
+					searchParams,
+					todoPage,
+					limit,
+					page,
+				),
 			},
 			template: "ListView",
 		});
@@ -114,24 +235,27 @@ export default class TodoController {
 	 * @example GET /todos/1
 	 */
 	getTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
-		let todo: Todo | null = null;
+		const todo = await this.findOwnedTodo(req, res);
 
-		try {
-			todo = await Todo.read(this.sql, id);
-		} catch (error) {
-			const message = `Error while getting todo list: ${error}`;
-			console.error(message);
+		if (!todo) {
+			return;
 		}
 
+		const subTodos = await SubTodo.readAll(this.sql, todo.props.id!);
+
 		await res.send({
 			statusCode: StatusCode.OK,
 			message: "Todo retrieved",
 			template: "ShowView",
 			payload: {
-				todo: todo?.props,
-				title: todo?.props.title,
-				isComplete: todo?.props.status === "complete",
+				todo: todo.props,
+				title: todo.props.title,
+				isComplete: todo.props.status === "complete",
+				subTodos: subTodos.map((subTodo) => ({
+					...subTodo.props,
+					isComplete: subTodo.props.status === "complete",
+				})),
+				progress: this.getProgress(subTodos),
 			},
 		});
 	};
@@ -146,27 +270,37 @@ export default class TodoController {
 	 * @example POST /todos { "title": "New Todo", "description": "A new todo" }
 	 */
 	createTodo = async (req: Request, res: Response) => {
-		let todo: Todo | null = null;
+		const userId = req.session.get("userId");
+
+		if (!req.body.title || !req.body.description) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Request body must include title and description.",
+				payload: { todo: undefined },
+				redirect: "/todos/new",
+			});
+			return;
+		}
 
-		// This will be broken until you implement users since it now requires a user ID.
 		let todoProps: TodoProps = {
 			title: req.body.title,
 			description: req.body.description,
 			status: "incomplete",
 			createdAt: createUTCDate(),
+			userId,
 		};
 
-		try {
-			todo = await Todo.create(this.sql, todoProps);
-		} catch (error) {
-			console.error("Error while creating todo:", error);
+		if (req.body.dueAt) {
+			todoProps.dueAt = createUTCDate(new Date(req.body.dueAt));
 		}
 
+		const todo = await Todo.create(this.sql, todoProps);
+
 		await res.send({
 			statusCode: StatusCode.Created,
 			message: "Todo created successfully!",
-			payload: { todo: todo?.props },
-			redirect: `/todos/${todo?.props.id}`,
+			payload: { todo: todo.props },
+			redirect: `/todos/${todo.props.id}`,
 		});
 	};
 
@@ -182,7 +316,12 @@ export default class TodoController {
 	 * @example PUT /todos/1 { "title": "Updated title", "dueAt": "2022-12-31" }
 	 */
 	updateTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
+		const todo = await this.findOwnedTodo(req, res);
+
+		if (!todo) {
+			return;
+		}
+
 		const todoProps: Partial<TodoProps> = {};
 
 		if (req.body.title) {
@@ -193,25 +332,13 @@ export default class TodoController {
 			todoProps.description = req.body.description;
 		}
 
-		let todo: Todo | null = null;
-
-		try {
-			todo = await Todo.read(this.sql, id);
-		} catch (error) {
-			console.error("Error while updating todo:", error);
-		}
-
-		try {
-			await todo?.update(todoProps);
-		} catch (error) {
-			console.error("Error while updating todo:", error);
-		}
+		await todo.update(todoProps);
 
 		await res.send({
 			statusCode: StatusCode.OK,
 			message: "Todo updated successfully!",
-			payload: { todo: todo?.props },
-			redirect: `/todos/${id}`,
+			payload: { todo: todo.props },
+			redirect: `/todos/${todo.props.id}`,
 		});
 	};
 
@@ -225,25 +352,18 @@ export default class TodoController {
 	 * @example DELETE /todos/1
 	 */
 	deleteTodo = async (req: Request, res: Response) => {
-		const id = req.getId();
-		let todo: Todo | null = null;
+		const todo = await this.findOwnedTodo(req, res);
 
-		try {
-			todo = await Todo.read(this.sql, id);
-		} catch (error) {
-			console.error("Error while deleting todo:", error);
+		if (!todo) {
+			return;
 		}
 
-		try {
-			await todo?.delete();
-		} catch (error) {
-			console.error("Error while deleting todo:", error);
-		}
+		await todo.delete();
 
 		await res.send({
 			statusCode: StatusCode.OK,
 			message: "Todo deleted successfully!",
-			payload: { todo: todo?.props },
+			payload: { todo: todo.props },
 			redirect: "/todos",
 		});
 	};
@@ -258,26 +378,364 @@ export default class TodoController {
 	 * @example PUT /todos/1/complete
 	 */
 	completeTodo = async (req: Request, res: Response) => {
+		const todo = await this.findOwnedTodo(req, res);
+
+		if (!todo) {
+			return;
+		}
+
+		await todo.markComplete();
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Todo marked as complete!",
+			payload: { todo: todo.props },
+			redirect: `/todos/${todo.props.id}`,
+		});
+	};
+
+	/**
+	 * Reads the todo with the ID from the request URL and makes sure it
+	 * belongs to the logged in user. If anything is wrong, the matching
+	 * error response is sent and `null` is returned so the caller can
+	 * stop handling the request.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 * @returns The todo if it exists and belongs to the logged in user.
+	 */
+	private findOwnedTodo = async (
+		req: Request,
+		res: Response,
+	): Promise<Todo | null> => {
+		const userId = req.session.get("userId");
+
 		const id = req.getId();
-		let todo: Todo | null = null;
 
-		try {
-			todo = await Todo.read(this.sql, id);
-		} catch (error) {
-			console.error("Error while marking todo as complete:", error);
+		if (isNaN(id)) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Invalid ID",
+			});
+			return null;
 		}
 
-		try {
-			await todo?.markComplete();
-		} catch (error) {
-			console.error("Error while marking todo as complete:", error);
+		const todo = await Todo.read(this.sql, id);
+
+		if (!todo) {
+			await res.send({
+				statusCode: StatusCode.NotFound,
+				message: "Not found",
+			});
+			return null;
 		}
 
+		if (todo.props.userId !== userId) {
+			await res.send({
+				statusCode: StatusCode.Forbidden,
+				message: "Forbidden",
+			});
+			return null;
+		}
+
+		return todo;
+	};
+
+	/**
+	 * This method should be called when a GET request is made to /todos/:id/sub-todos.
+	 * It should retrieve all sub-todos of a todo and send them as a response.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /todos/1/sub-todos
+	 */
+	getSubTodoList = async (req: Request, res: Response) => {
+		const todo = await this.findOwnedTodo(req, res);
+
+		if (!todo) {
+			return;
+		}
+
+		const subTodos = await SubTodo.readAll(this.sql, todo.props.id!);
+
 		await res.send({
 			statusCode: StatusCode.OK,
-			message: "Todo marked as complete!",
-			payload: { todo: todo?.props },
-			redirect: `/todos/${id}`,
+			message: "Sub-todo list retrieved",
+			payload: {
+				subTodos: subTodos.map((subTodo) => subTodo.props),
+				progress: this.getProgress(subTodos),
+			},
+			redirect: `/todos/${todo.props.id}`,
+		});
+	};
+
+	/**
+	 * This method should be called when a POST request is made to /todos/:id/sub-todos.
+	 * It should create a new sub-todo for the todo and send it as a response.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example POST /todos/1/sub-todos { "title": "New Sub-todo" }
+	 */
+	createSubTodo = async (req: Request, res: Response) => {
+		const todo = await this.findOwnedTodo(req, res);
+
+		if (!todo) {
+			return;
+		}
+
+		if (!req.body.title) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Request body must include title.",
+				payload: { subTodo: undefined },
+				redirect: `/todos/${todo.props.id}`,
+			});
+			return;
+		}
+
+		const subTodo = await SubTodo.create(this.sql, {
+			title: req.body.title,
+			status: "incomplete",
+			createdAt: createUTCDate(),
+			todoId: todo.props.id!,
+		});
+
+		await res.send({
+			statusCode: StatusCode.Created,
+			message: "Sub-todo created successfully!",
+			payload: { subTodo: subTodo.props },
+			redirect: `/todos/${todo.props.id}`,
+		});
+	};
+
+	/**
+	 * This method should be called when a PUT request is made to /todos/:id/sub-todos/:subTodoId.
+	 * It should update an existing sub-todo and send it as a response.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /todos/1/sub-todos/2 { "title": "Updated title" }
+	 */
+	updateSubTodo = async (req: Request, res: Response) => {
+		const subTodo = await this.findOwnedSubTodo(req, res);
+
+		if (!subTodo) {
+			return;
+		}
+
+		if (req.body.title) {
+			await subTodo.update({ title: req.body.title });
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Sub-todo updated successfully!",
+			payload: { subTodo: subTodo.props },
+			redirect: `/todos/${subTodo.props.todoId}`,
+		});
+	};
+
+	/**
+	 * This method should be called when a DELETE request is made to /todos/:id/sub-todos/:subTodoId.
+	 * It should delete an existing sub-todo.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example DELETE /todos/1/sub-todos/2
+	 */
+	deleteSubTodo = async (req: Request, res: Response) => {
+		const subTodo = await this.findOwnedSubTodo(req, res);
+
+		if (!subTodo) {
+			return;
+		}
+
+		await subTodo.delete();
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Sub-todo deleted successfully!",
+			payload: { subTodo: subTodo.props },
+			redirect: `/todos/${subTodo.props.todoId}`,
+		});
+	};
+
+	/**
+	 * This method should be called when a PUT request is made to /todos/:id/sub-todos/:subTodoId/complete.
+	 * It should mark an existing sub-todo as complete and send it as a response.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /todos/1/sub-todos/2/complete
+	 */
+	completeSubTodo = async (req: Request, res: Response) => {
+		const subTodo = await this.findOwnedSubTodo(req, res);
+
+		if (!subTodo) {
+			return;
+		}
+
+		await subTodo.markComplete();
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Sub-todo marked as complete!",
+			payload: { subTodo: subTodo.props },
+			redirect: `/todos/${subTodo.props.todoId}`,
 		});
 	};
+
+	/**
+	 * Like `findOwnedTodo`, but for the sub-todo with the sub-todo ID
+	 * from the request URL. The sub-todo also has to belong to the
+	 * todo from the request URL, otherwise it is treated as not found.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 * @returns The sub-todo if it exists and its todo belongs to the logged in user.
+	 */
+	private findOwnedSubTodo = async (
+		req: Request,
+		res: Response,
+	): Promise<SubTodo | null> => {
+		const todo = await this.findOwnedTodo(req, res);
+
+		if (!todo) {
+			return null;
+		}
+
+		const subTodoId = req.getSubTodoId();
+
+		if (isNaN(subTodoId)) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Invalid ID",
+			});
+			return null;
+		}
+
+		const subTodo = await SubTodo.read(this.sql, subTodoId);
+
+		if (!subTodo || subTodo.props.todoId !== todo.props.id) {
+			await res.send({
+				statusCode: StatusCode.NotFound,
+				message: "Not found",
+			});
+			return null;
+		}
+
+		return subTodo;
+	};
+
+	/**
+	 * @returns How many of the sub-todos are done out of how many there are.
+	 * @example [complete, incomplete, complete] => { completed: 2, total: 3 }
+	 */
+	private getProgress = (subTodos: SubTodo[]) => {
+		return {
+			completed: subTodos.filter(
+				(subTodo) => subTodo.props.status === "complete",
+			).length,
+			total: subTodos.length,
+		};
+	};
+
+	/**
+	 * Builds the filters for `Todo.readAll` from the query string.
+	 * Values that aren't valid statuses or dates are ignored. The
+	 * "before" dates are pushed to the end of their day so that
+	 * `dueBefore=2024-03-31` still includes todos due on the 31st.
+	 *
+	 * @param searchParams The search params of the request URL.
+	 * @returns The filters to apply to the todo list.
+	 */
+	private getTodoFilters = (searchParams: URLSearchParams): TodoFilters => {
+		const filters: TodoFilters = {};
+		const status = searchParams.get("status");
+
+		if (status === "incomplete" || status === "complete") {
+			filters.status = status;
+		}
+
+		const parseDate = (name: string, endOfDay = false) => {
+			const value = searchParams.get(name);
+			const date = value ? new Date(value) : null;
+
+			if (!date || isNaN(date.getTime())) {
+				return undefined;
+			}
+
+			if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value!)) {
+				date.setUTCHours(23, 59, 59, 999);
+			}
+
+			return date;
+		};
+
+		filters.dueAfter = parseDate("dueAfter");
+		filters.dueBefore = parseDate("dueBefore", true);
+		filters.createdAfter = parseDate("createdAfter");
+		filters.createdBefore = parseDate("createdBefore", true);
+
+		return filters;
+	};
+
+	/**
+	 * Builds the links to the pages around the current one, keeping the
+	 * filters and sorting of the current request. Pages that were asked
+	 * for by number link to other page numbers and pages that were asked
+	 * for by cursor link to other cursors.
+	 *
+	 * @param searchParams The search params of the request URL.
+	 * @param todoPage The page of todos that was read.
+	 * @param limit The number of todos per page.
+	 * @param page The current page number, or `null` when using cursors.
+	 * @returns The pagination details to send along with the todo list.
+	 */
+	private getPaginationLinks = (
+		searchParams: URLSearchParams,
+		todoPage: TodoPage,
+		limit: number,
+		page: number | null,
+	) => {
+		const link = (name: "page" | "cursor", value: string | number) => {
+			const params = new URLSearchParams(searchParams);
+
+			params.delete("page");
+			params.delete("cursor");
+			params.set(name, String(value));
+			params.set("limit", String(limit));
+
+			return `/todos?${params}`;
+		};
+
+		let next: string | null = null;
+		let prev: string | null = null;
+
+		if (page) {
+			next = todoPage.nextCursor ? link("page", page + 1) : null;
+			prev = page > 1 ? link("page", page - 1) : null;
+		} else {
+			next = todoPage.nextCursor
+				? link("cursor", todoPage.nextCursor)
+				: null;
+			prev = todoPage.prevCursor
+				? link("cursor", todoPage.prevCursor)
+				: null;
+		}
+
+		return {
+			total: todoPage.total,
+			limit,
+			page,
+			next,
+			prev,
+		};
+	};
 }
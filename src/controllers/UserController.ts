@@ -1,7 +1,48 @@
 import postgres from "postgres";
 import Request from "../router/Request";
-import Response from "../router/Response";
+import Response, { StatusCode } from "../router/Response";
 import Router from "../router/Router";
+import User, {
+	DuplicateEmailError,
+	InvalidCredentialsError,
+	UserProps,
+} from "../models/User";
+import UserSettings, {
+	InvalidSettingsError,
+	THEMES,
+	UserSettingsProps,
+} from "../models/UserSettings";
+import { SORTABLE_COLUMNS } from "../models/Todo";
+import LoginAttempt from "../models/LoginAttempt";
+import RememberToken from "../models/RememberToken";
+import Cookie from "../auth/Cookie";
+import SessionManager from "../auth/SessionManager";
+import { createUTCDate } from "../utils";
+import { requireAdmin, requireAuth } from "../auth/guards";
+import {
+	EMAIL_VERIFICATION_TIME,
+	createVerificationToken,
+	digestEmail,
+	readVerificationToken,
+} from "../auth/verification";
+import Mailer from "../mail/Mailer";
+import { getPath } from "../url";
+import {
+	MAX_AVATAR_SIZE,
+	deleteAvatar,
+	isAvatarType,
+	saveAvatar,
+} from "../avatars";
+
+/**
+ * @returns The props of the user without the password hash, which should never leave the server.
+ */
+const withoutPassword = ({ password, ...props }: UserProps) => props;
+
+/**
+ * How long the `settings` cookie lasts, so that preferences outlive the session.
+ */
+const SETTINGS_COOKIE_TIME = 1000 * 60 * 60 * 24 * 365; // Milliseconds * seconds * minutes * hours * days.
 
 /**
  * Controller for handling User CRUD operations.
@@ -10,25 +51,763 @@ import Router from "../router/Router";
  */
 export default class UserController {
 	private sql: postgres.Sql<any>;
+	private mailer: Mailer;
 
-	constructor(sql: postgres.Sql<any>) {
+	constructor(sql: postgres.Sql<any>, mailer: Mailer) {
 		this.sql = sql;
+		this.mailer = mailer;
 	}
 
 	registerRoutes(router: Router) {
+		router.get("/users", requireAdmin, this.getUserList);
 		router.post("/users", this.createUser);
+		router.get("/settings", this.getSettingsForm);
+		router.put("/settings", this.updateSettings);
+		router.post("/verify-email", requireAuth, this.resendVerificationEmail);
+		router.get("/verify-email/:token", this.verifyEmail);
 
 		// Any routes that include an `:id` parameter should be registered last.
+		router.get("/users/:id/edit", requireAuth, this.getEditUserForm);
+		router.get("/users/:id/settings", requireAuth, this.getSettingsForm);
+		router.put("/users/:id/settings", requireAuth, this.updateSettings);
+		router.put("/users/:id/admin", requireAdmin, this.updateAdmin);
+		router.put("/users/:id/unlock", requireAdmin, this.unlockUser);
+		router.put("/users/:id", requireAuth, this.updateUser);
+		router.delete("/users/:id", requireAuth, this.deleteUser);
 	}
 
 	/**
-	 * TODO: Upon form submission, this controller method should
-	 * validate that no fields are blank/missing, that the passwords
-	 * match, and that there isn't already a user with the given email.
-	 * If there are any errors, redirect back to the registration form
-	 * with an error message.
-	 * @param req
-	 * @param res
+	 * Lists all users for admins. The list can be narrowed down
+	 * to the users whose email contains the `search` query.
+	 * Users who are locked out after too many failed logins are marked.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /users
+	 * @example GET /users?search=example.com
+	 */
+	getUserList = async (req: Request, res: Response) => {
+		const searchParams = req.getSearchParams();
+		const search = searchParams.get("search") ?? "";
+		const users = await User.readAll(this.sql, search);
+		const lockedEmails = await LoginAttempt.readLocked(
+			this.sql,
+			users.map((user) => user.props.email),
+		);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "All users",
+			template: "UserListView",
+			payload: {
+				title: "Users",
+				users: users.map((user) => ({
+					...withoutPassword(user.props),
+					isCurrentUser: user.props.id === req.session.get("userId"),
+					isLocked: lockedEmails.has(user.props.email),
+				})),
+				search,
+			},
+		});
+	};
+
+	/**
+	 * Lets admins grant or revoke admin rights. Forms send `isAdmin` as
+	 * "true" or "false" and JSON clients can send a boolean. Without
+	 * `isAdmin`, the user's admin rights are toggled.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /users/1/admin { "isAdmin": true }
+	 */
+	updateAdmin = async (req: Request<{ id: string }>, res: Response) => {
+		const user = await this.findUser(req, res);
+
+		if (!user) {
+			return;
+		}
+
+		if (req.body.isAdmin === undefined) {
+			await user.toggleAdmin();
+		} else {
+			await user.update({
+				isAdmin:
+					req.body.isAdmin === true || req.body.isAdmin === "true",
+			});
+		}
+
+		// The user's sessions cache whether they're an admin, and a change
+		// in privileges means those sessions should get new IDs.
+		await SessionManager.getInstance().updateUserSessions(user.props.id!, {
+			isAdmin: user.props.isAdmin,
+		});
+
+		if (user.props.id === req.session.get("userId")) {
+			req.session.set("isAdmin", user.props.isAdmin);
+			res.setCookie((await req.regenerateSession()).cookie);
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "User updated",
+			payload: { user: withoutPassword(user.props) },
+			flash: "User updated successfully!",
+			redirect: "/users",
+		});
+	};
+
+	/**
+	 * Lets admins unlock a user who was locked out after too many failed
+	 * logins. The user's failed attempts are forgotten, so they get their
+	 * free attempts back. Locks on IP addresses are left alone.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /users/1/unlock
+	 */
+	unlockUser = async (req: Request<{ id: string }>, res: Response) => {
+		const user = await this.findUser(req, res);
+
+		if (!user) {
+			return;
+		}
+
+		await LoginAttempt.reset(this.sql, user.props.email);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "User unlocked",
+			payload: { user: withoutPassword(user.props) },
+			flash: "User unlocked successfully!",
+			redirect: "/users",
+		});
+	};
+
+	/**
+	 * Deletes a user along with all of their todos, and logs them out
+	 * everywhere. Admins can delete anyone and users can delete their
+	 * own account. Everyone else gets a 403.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example DELETE /users/1
+	 */
+	deleteUser = async (req: Request<{ id: string }>, res: Response) => {
+		const user = await this.findUser(req, res);
+
+		if (!user || !(await this.authorize(req, res, user, true))) {
+			return;
+		}
+
+		const isSelf = user.props.id === req.session.get("userId");
+
+		await RememberToken.revokeAll(this.sql, user.props.id!);
+		await user.delete();
+		await deleteAvatar(user.props.profile);
+		await SessionManager.getInstance().destroyUserSessions(user.props.id!);
+
+		if (isSelf) {
+			req.session.destroy();
+			res.clearCookie("session_id");
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "User deleted",
+			payload: { user: withoutPassword(user.props) },
+			flash: "User deleted successfully!",
+			redirect: isSelf ? "/" : "/users",
+		});
+	};
+
+	/**
+	 * Renders the profile form for the logged in user. Users can
+	 * only edit their own profile.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /users/1/edit
 	 */
-	createUser = async (req: Request, res: Response) => {};
+	getEditUserForm = async (req: Request<{ id: string }>, res: Response) => {
+		const user = await this.findUser(req, res);
+
+		if (!user || !(await this.authorize(req, res, user))) {
+			return;
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Edit user form",
+			template: "EditUserFormView",
+			payload: {
+				title: "Edit Profile",
+				user: withoutPassword(user.props),
+			},
+		});
+	};
+
+	/**
+	 * Updates the logged in user's email, password and/or profile
+	 * picture. Changing the password requires the current password,
+	 * which is checked the same way as when logging in, and logs the
+	 * user out everywhere but the current session. The profile
+	 * picture is uploaded as the `avatar` file of a multipart form.
+	 * A changed email has to be verified again before the user can
+	 * make changes, and a link to do so is sent to it. HTML clients
+	 * are sent back to the profile form with a success or error message.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /users/1 { "email": "new@email.com" }
+	 * @example PUT /users/1 { "password": "new", "currentPassword": "old" }
+	 * @example PUT /users/1 multipart/form-data with an `avatar` file
+	 */
+	updateUser = async (req: Request<{ id: string }>, res: Response) => {
+		const user = await this.findUser(req, res);
+
+		if (!user || !(await this.authorize(req, res, user))) {
+			return;
+		}
+
+		const { email, password, currentPassword } = req.body;
+		const editPath = `/users/${user.props.id}/edit`;
+		const updateProps: Partial<UserProps> = {};
+
+		if (email) {
+			updateProps.email = email;
+
+			// A new email has to be verified again. Like verification links
+			// and login limits, emails that only differ in case or surrounding
+			// spaces are the same email.
+			if (digestEmail(email) !== digestEmail(user.props.email)) {
+				updateProps.verifiedAt = null;
+			}
+		}
+
+		if (password) {
+			if (!currentPassword) {
+				await res.send({
+					statusCode: StatusCode.BadRequest,
+					message: "Current password is required.",
+					redirect: editPath,
+				});
+				return;
+			}
+
+			try {
+				await User.login(this.sql, user.props.email, currentPassword);
+			} catch (error) {
+				if (error instanceof InvalidCredentialsError) {
+					await res.send({
+						statusCode: StatusCode.BadRequest,
+						message: "Current password is incorrect.",
+						redirect: editPath,
+					});
+					return;
+				}
+
+				throw error;
+			}
+
+			updateProps.password = password;
+		}
+
+		const avatar = req.files.avatar;
+
+		if (avatar && !isAvatarType(avatar)) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message:
+					"Profile picture must be a PNG, JPEG, GIF or WebP image.",
+				redirect: editPath,
+			});
+			return;
+		}
+
+		if (avatar && avatar.size > MAX_AVATAR_SIZE) {
+			await res.send({
+				statusCode: StatusCode.PayloadTooLarge,
+				message: "Profile picture must be 2 MB or smaller.",
+				redirect: editPath,
+			});
+			return;
+		}
+
+		if (Object.keys(updateProps).length === 0 && !avatar) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Request body must include email, password or avatar.",
+				flash: "Nothing to update.",
+				redirect: editPath,
+			});
+			return;
+		}
+
+		const previousProfile = user.props.profile;
+
+		if (avatar) {
+			updateProps.profile = await saveAvatar(avatar);
+		}
+
+		try {
+			await user.update(updateProps);
+		} catch (error) {
+			// The new picture won't be used, so don't leave it lying around.
+			await deleteAvatar(updateProps.profile);
+
+			if (error instanceof DuplicateEmailError) {
+				await res.send({
+					statusCode: StatusCode.Conflict,
+					message: error.message,
+					redirect: editPath,
+				});
+				return;
+			}
+
+			throw error;
+		}
+
+		if (avatar) {
+			await deleteAvatar(previousProfile);
+			req.session.set("profile", user.props.profile);
+		}
+
+		// Whoever knew the old password may still be logged in elsewhere,
+		// so only this session is kept, under a new ID.
+		if (updateProps.password) {
+			await RememberToken.revokeAll(this.sql, user.props.id!);
+			await SessionManager.getInstance().destroyUserSessions(
+				user.props.id!,
+			);
+			res.setCookie((await req.regenerateSession()).cookie);
+			res.clearCookie("remember_token");
+		}
+
+		if (updateProps.verifiedAt === null) {
+			await SessionManager.getInstance().updateUserSessions(
+				user.props.id!,
+				{ isVerified: false },
+			);
+			req.session.set("isVerified", false);
+			await this.sendVerificationEmail(user);
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "User updated",
+			payload: { user: withoutPassword(user.props) },
+			flash: "User updated successfully!",
+			redirect: editPath,
+		});
+	};
+
+	/**
+	 * Renders the settings form. Users see the settings saved in the
+	 * database, anonymous visitors see the ones in their cookie.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /users/1/settings
+	 * @example GET /settings
+	 */
+	getSettingsForm = async (req: Request<{ id?: string }>, res: Response) => {
+		const userId = await this.findSettingsOwner(req, res);
+
+		if (userId === undefined) {
+			return;
+		}
+
+		const settings =
+			userId === null
+				? req.getSettings()
+				: (await UserSettings.read(this.sql, userId)).props;
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Settings retrieved",
+			template: "SettingsView",
+			payload: {
+				title: "Settings",
+				settings,
+				action: this.getSettingsPath(req),
+				themeOptions: THEMES.map((theme) => ({
+					value: theme,
+					selected: theme === settings.theme,
+				})),
+				// The list of supported time zones leaves out UTC, which is the default.
+				timezoneOptions: [
+					...new Set(["UTC", ...Intl.supportedValuesOf("timeZone")]),
+				].map((timezone) => ({
+					value: timezone,
+					selected: timezone === settings.timezone,
+				})),
+				sortOptions: SORTABLE_COLUMNS.map((column) => ({
+					value: column,
+					selected: column === settings.sortBy,
+				})),
+				isDescending: settings.orderBy === "desc",
+			},
+		});
+	};
+
+	/**
+	 * Saves the settings of a user in the database, or of an anonymous
+	 * visitor in the `settings` cookie. The cookie is also set for
+	 * users, so that the theme sticks around after they log out.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example PUT /users/1/settings { "theme": "dark", "pageSize": 10 }
+	 * @example PUT /settings { "timezone": "America/Toronto" }
+	 */
+	updateSettings = async (req: Request<{ id?: string }>, res: Response) => {
+		const userId = await this.findSettingsOwner(req, res);
+
+		if (userId === undefined) {
+			return;
+		}
+
+		const settingsPath = this.getSettingsPath(req);
+		let updateProps: Partial<UserSettingsProps>;
+
+		try {
+			updateProps = UserSettings.parse(req.body);
+		} catch (error) {
+			if (error instanceof InvalidSettingsError) {
+				await res.send({
+					statusCode: StatusCode.BadRequest,
+					message: error.message,
+					redirect: settingsPath,
+				});
+				return;
+			}
+
+			throw error;
+		}
+
+		let settings: UserSettingsProps;
+
+		if (userId === null) {
+			settings = { ...req.getSettings(), ...updateProps };
+		} else {
+			const userSettings = await UserSettings.read(this.sql, userId);
+
+			await userSettings.save(updateProps);
+			settings = userSettings.props;
+			req.session.set("settings", settings);
+		}
+
+		res.setCookie(
+			new Cookie(
+				"settings",
+				UserSettings.toCookieValue(settings),
+				SETTINGS_COOKIE_TIME,
+			),
+		);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Settings updated",
+			payload: { settings, isDark: settings.theme === "dark" },
+			flash: "Settings updated successfully!",
+			redirect: settingsPath,
+		});
+	};
+
+	/**
+	 * Upon form submission, this controller method validates that
+	 * no fields are blank/missing, that the passwords match, and
+	 * that there isn't already a user with the given email. If there
+	 * are any errors, it redirects back to the registration form
+	 * with an error message. Otherwise, a link to verify the email
+	 * is sent to it, since anyone can type in any email.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example POST /users { "email": "user@email.com", "password": "password", "confirmPassword": "password" }
+	 */
+	createUser = async (req: Request, res: Response) => {
+		const { email, password, confirmPassword } = req.body;
+
+		if (!email) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Missing email.",
+				flash: "Email is required.",
+				redirect: "/register",
+			});
+			return;
+		}
+
+		if (!password) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Missing password.",
+				flash: "Password is required.",
+				redirect: "/register",
+			});
+			return;
+		}
+
+		if (password !== confirmPassword) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Passwords do not match",
+				redirect: "/register",
+			});
+			return;
+		}
+
+		let user: User;
+
+		try {
+			user = await User.create(this.sql, {
+				email,
+				password,
+				createdAt: createUTCDate(),
+			});
+		} catch (error) {
+			if (error instanceof DuplicateEmailError) {
+				await res.send({
+					statusCode: StatusCode.BadRequest,
+					message: error.message,
+					redirect: "/register",
+				});
+				return;
+			}
+
+			throw error;
+		}
+
+		await this.sendVerificationEmail(user);
+
+		await res.send({
+			statusCode: StatusCode.Created,
+			message: "User created",
+			payload: { user: user.props },
+			flash: "Registration successful! Check your email for a link to verify your address.",
+			redirect: "/login",
+		});
+	};
+
+	/**
+	 * Marks the user's email as verified if the link is valid and was
+	 * sent to the email the user has now. The user's sessions learn
+	 * about it too, and since that lifts a restriction, they get new IDs.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example GET /verify-email/MToxNzYwOTIyMDAwMDAwOnExTmY...
+	 */
+	verifyEmail = async (req: Request<{ token: string }>, res: Response) => {
+		const token = readVerificationToken(req.params.token);
+		const user = token ? await User.read(this.sql, token.userId) : null;
+
+		if (!user || digestEmail(user.props.email) !== token!.emailDigest) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Verification link is invalid or has expired.",
+				redirect: req.session.exists("userId") ? "/todos" : "/login",
+			});
+			return;
+		}
+
+		if (!user.props.verifiedAt) {
+			await user.update({ verifiedAt: createUTCDate() });
+		}
+
+		await SessionManager.getInstance().updateUserSessions(user.props.id!, {
+			isVerified: true,
+		});
+
+		if (user.props.id === req.session.get("userId")) {
+			req.session.set("isVerified", true);
+			res.setCookie((await req.regenerateSession()).cookie);
+		}
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Email verified",
+			payload: { user: withoutPassword(user.props) },
+			flash: "Email verified successfully!",
+			redirect: req.session.exists("userId") ? "/todos" : "/login",
+		});
+	};
+
+	/**
+	 * Sends the logged in user a new verification link, in case
+	 * the last one got lost or expired.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 *
+	 * @example POST /verify-email
+	 */
+	resendVerificationEmail = async (req: Request, res: Response) => {
+		const user = await User.read(this.sql, req.session.get("userId"));
+
+		if (!user) {
+			await res.send({
+				statusCode: StatusCode.NotFound,
+				message: "User not found",
+			});
+			return;
+		}
+
+		if (user.props.verifiedAt) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Email is already verified.",
+				redirect: "/todos",
+			});
+			return;
+		}
+
+		await this.sendVerificationEmail(user);
+
+		await res.send({
+			statusCode: StatusCode.OK,
+			message: "Verification email sent",
+			flash: `A new verification link has been sent to ${user.props.email}.`,
+			redirect: "/todos",
+		});
+	};
+
+	/**
+	 * Checks that the logged in user is `user` (or an admin, if
+	 * `allowAdmin` is set). If not, a 403 is sent and `false` is
+	 * returned so the caller can stop handling the request.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 * @param user The user being acted on.
+	 * @param allowAdmin Whether admins may act on other users.
+	 */
+	private authorize = async (
+		req: Request,
+		res: Response,
+		user: User,
+		allowAdmin = false,
+	): Promise<boolean> => {
+		const isSelf = user.props.id === req.session.get("userId");
+
+		if (isSelf || (allowAdmin && req.session.get("isAdmin"))) {
+			return true;
+		}
+
+		await res.send({
+			statusCode: StatusCode.Forbidden,
+			message: "Unauthorized",
+			template: "ErrorView",
+			payload: {
+				title: "Error",
+				error: "You are not authorized to view this page.",
+			},
+		});
+
+		return false;
+	};
+
+	/**
+	 * Works out whose settings a request is about. With an `:id` in the
+	 * URL, it's that user's, as long as they're the one logged in.
+	 * Otherwise, it's the logged in user's, or an anonymous visitor's.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 * @returns The ID of the user, `null` for an anonymous visitor, or
+	 * `undefined` if an error response was sent.
+	 */
+	private findSettingsOwner = async (
+		req: Request<{ id?: string }>,
+		res: Response,
+	): Promise<number | null | undefined> => {
+		if (req.params.id === undefined) {
+			return req.session.get("userId");
+		}
+
+		const user = await this.findUser(req as Request<{ id: string }>, res);
+
+		if (!user || !(await this.authorize(req, res, user))) {
+			return undefined;
+		}
+
+		return user.props.id!;
+	};
+
+	/**
+	 * @returns The path the settings form was requested from, so the
+	 * form is submitted (and redirects) back to the same place.
+	 */
+	private getSettingsPath = (req: Request<{ id?: string }>) => {
+		return req.params.id === undefined
+			? "/settings"
+			: `/users/${req.params.id}/settings`;
+	};
+
+	/**
+	 * Emails the user a link to verify that the email is theirs.
+	 */
+	private sendVerificationEmail = async (user: User) => {
+		const token = createVerificationToken(user.props.id!, user.props.email);
+
+		await this.mailer.send({
+			to: user.props.email,
+			subject: "Verify your email address",
+			text: [
+				"Please confirm that this is your email address by following this link:",
+				"",
+				getPath("verify-email/:token", { token }),
+				"",
+				`The link works for the next ${EMAIL_VERIFICATION_TIME / (1000 * 60 * 60)} hours.`,
+				"If you didn't sign up, you can ignore this email.",
+			].join("\n"),
+		});
+	};
+
+	/**
+	 * Reads the user with the ID from the request URL. If the ID is
+	 * invalid or there is no such user, the matching error response
+	 * is sent and `null` is returned so the caller can stop handling
+	 * the request.
+	 *
+	 * @param req The request object.
+	 * @param res The response object.
+	 * @returns The user if it exists.
+	 */
+	private findUser = async (
+		req: Request<{ id: string }>,
+		res: Response,
+	): Promise<User | null> => {
+		const id = Number(req.params.id);
+
+		if (isNaN(id)) {
+			await res.send({
+				statusCode: StatusCode.BadRequest,
+				message: "Invalid user ID",
+			});
+			return null;
+		}
+
+		const user = await User.read(this.sql, id);
+
+		if (!user) {
+			await res.send({
+				statusCode: StatusCode.NotFound,
+				message: "User not found",
+			});
+			return null;
+		}
+
+		return user;
+	};
 }
@@ -0,0 +1,24 @@
+/**
+ * An email to send. Only plain text is supported, which every mail
+ * client can show and which keeps links visible as what they are.
+ */
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+}
+
+/**
+ * How the app sends email. The default mailer doesn't send anything
+ * but writes every message to a local outbox, which is all that's needed
+ * during development and in tests. Pass an implementation that talks to
+ * an SMTP server or an email API to send real mail.
+ * @see OutboxMailer
+ * @example new Server({ ...options, mailer: new SmtpMailer(transport) })
+ */
+export default interface Mailer {
+	/**
+	 * Sends the message, or at least hands it to something that will.
+	 */
+	send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,104 @@
+import "dotenv/config";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import Mailer, { MailMessage } from "./Mailer";
+
+/**
+ * Where messages are written unless another directory is given. Set
+ * `OUTBOX_PATH` in `.env` to change it. The messages hold password reset
+ * links, so the outbox must never be somewhere the server serves files from.
+ * @example OUTBOX_PATH=/var/mail/todos
+ */
+export const OUTBOX_PATH =
+	process.env.OUTBOX_PATH || path.join(os.tmpdir(), "todo-outbox");
+
+const DEFAULT_FROM = process.env.MAIL_FROM || "no-reply@localhost";
+
+/**
+ * Keeps messages written in the same millisecond in order.
+ */
+let sequence = 0;
+
+/**
+ * Header values can't span lines, or whoever controls them could add
+ * headers of their own. Anything that isn't printable ASCII is encoded.
+ * @see https://datatracker.ietf.org/doc/html/rfc2047#section-2
+ * @example encodeHeader("Café") => "=?UTF-8?B?Q2Fmw6k=?="
+ */
+const encodeHeader = (value: string) => {
+	if (/[\r\n]/.test(value)) {
+		throw new Error("Mail headers can't contain line breaks.");
+	}
+
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+};
+
+/**
+ * The default mailer. Instead of sending messages, it writes each one
+ * to its own `.eml` file in the outbox directory, which any mail client
+ * can open. The file names start with the time the message was written,
+ * so they sort from oldest to newest.
+ * @see https://datatracker.ietf.org/doc/html/rfc5322
+ * @example /tmp/todo-outbox/1760835600000-000042.eml
+ */
+export default class OutboxMailer implements Mailer {
+	constructor(
+		private directory = OUTBOX_PATH,
+		private from = DEFAULT_FROM,
+	) {}
+
+	async send({ to, subject, text }: MailMessage) {
+		const id = crypto.randomUUID();
+		const domain = this.from.replace(/^.*@|>$/g, "");
+		const message = [
+			`From: ${encodeHeader(this.from)}`,
+			`To: ${encodeHeader(to)}`,
+			`Subject: ${encodeHeader(subject)}`,
+			`Date: ${new Date().toUTCString()}`,
+			`Message-ID: <${id}@${domain}>`,
+			"MIME-Version: 1.0",
+			"Content-Type: text/plain; charset=utf-8",
+			"Content-Transfer-Encoding: 8bit",
+			"",
+			text,
+		].join("\n");
+
+		await fs.mkdir(this.directory, { recursive: true });
+		await fs.writeFile(
+			path.join(
+				this.directory,
+				`${Date.now()}-${String(sequence++ % 1e6).padStart(6, "0")}.eml`,
+			),
+			// Mail uses CRLF line endings, whatever the platform.
+			message.replace(/\r?\n/g, "\r\n"),
+		);
+	}
+
+	/**
+	 * @returns The messages in the outbox as they were written, oldest first.
+	 */
+	async read() {
+		let files: string[];
+
+		try {
+			files = await fs.readdir(this.directory);
+		} catch {
+			return [];
+		}
+
+		return Promise.all(
+			files
+				.filter((file) => file.endsWith(".eml"))
+				.sort()
+				.map(async (file) =>
+					(
+						await fs.readFile(path.join(this.directory, file))
+					).toString(),
+				),
+		);
+	}
+}
@@ -0,0 +1,195 @@
+import postgres from "postgres";
+
+/**
+ * Failed logins are counted per IP address, which catches one client
+ * guessing many accounts, and per account, which catches many clients
+ * guessing one account.
+ */
+export type LoginAttemptScope = "ip" | "account";
+
+export interface LoginLimit {
+	/**
+	 * How many failures in a row are let through without any delay.
+	 */
+	freeAttempts: number;
+	/**
+	 * After how many failures in a row the key is locked out for `LOCKOUT_TIME`.
+	 */
+	lockoutAfter: number;
+}
+
+/**
+ * Many users can share an IP address behind a NAT, so an IP address
+ * gets more attempts than a single account.
+ */
+export const LOGIN_LIMITS: Record<LoginAttemptScope, LoginLimit> = {
+	ip: { freeAttempts: 10, lockoutAfter: 50 },
+	account: { freeAttempts: 3, lockoutAfter: 10 },
+};
+
+/**
+ * The first delay after the free attempts run out. It doubles with every failure.
+ */
+const BACKOFF_TIME = 1000; // Milliseconds.
+
+/**
+ * How long a key stays locked once it has failed `lockoutAfter` times.
+ */
+export const LOCKOUT_TIME = 1000 * 60 * 15; // Milliseconds * seconds * minutes.
+
+/**
+ * Failures older than this are forgotten, so that the odd typo
+ * doesn't add up to a lockout over weeks.
+ */
+const FAILURE_WINDOW = 1000 * 60 * 60; // Milliseconds * seconds * minutes.
+
+export class TooManyLoginAttemptsError extends Error {
+	constructor(public retryAfter: number) {
+		super(
+			`Too many login attempts. Please try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`,
+		);
+	}
+}
+
+/**
+ * @returns How long the key has to wait after its latest failure, in milliseconds.
+ * @example getLockoutTime("account", 5) => 4000
+ */
+export const getLockoutTime = (scope: LoginAttemptScope, failures: number) => {
+	const { freeAttempts, lockoutAfter } = LOGIN_LIMITS[scope];
+
+	if (failures >= lockoutAfter) {
+		return LOCKOUT_TIME;
+	}
+
+	if (failures < freeAttempts) {
+		return 0;
+	}
+
+	return Math.min(
+		BACKOFF_TIME * 2 ** (failures - freeAttempts),
+		LOCKOUT_TIME,
+	);
+};
+
+/**
+ * Emails are compared case-insensitively, so that changing
+ * the case doesn't buy an attacker more attempts.
+ */
+const normalize = (scope: LoginAttemptScope, key: string) => {
+	return scope === "account" ? key.trim().toLowerCase() : key;
+};
+
+/**
+ * Counts failed logins in the `login_attempts` table, so that the
+ * counters survive restarts and are shared by every server process.
+ * Every failure past the free attempts locks the key for twice as long
+ * as the one before, until the key is locked out for `LOCKOUT_TIME`.
+ * A successful login resets the account's counter, but not the IP's,
+ * so that an attacker with one account can't reset their own counter.
+ * @see https://cheatsheetseries.owasp.org/cheatsheets/Authentication_Cheat_Sheet.html#protect-against-automated-attacks
+ */
+export default class LoginAttempt {
+	/**
+	 * @throws TooManyLoginAttemptsError if the IP or the account is locked.
+	 */
+	static async check(sql: postgres.Sql<any>, ip: string, email: string) {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<{ lockedUntil: Date }[]>`
+			SELECT MAX(locked_until) AS "lockedUntil"
+			FROM login_attempts
+			WHERE ((scope = 'ip' AND key = ${normalize("ip", ip)})
+				OR (scope = 'account' AND key = ${normalize("account", email)}))
+				AND locked_until > NOW()
+		`;
+
+		await connection.release();
+
+		if (row?.lockedUntil) {
+			throw new TooManyLoginAttemptsError(
+				Math.ceil((row.lockedUntil.getTime() - Date.now()) / 1000),
+			);
+		}
+	}
+
+	/**
+	 * Counts a failed login against both the IP and the account
+	 * and locks them if they've run out of attempts.
+	 * @see https://www.postgresql.org/docs/current/sql-insert.html#SQL-ON-CONFLICT
+	 */
+	static async fail(sql: postgres.Sql<any>, ip: string, email: string) {
+		const keys: [LoginAttemptScope, string][] = [
+			["ip", normalize("ip", ip)],
+			["account", normalize("account", email)],
+		];
+		const connection = await sql.reserve();
+
+		for (const [scope, key] of keys) {
+			const [{ failures }] = await connection<{ failures: number }[]>`
+				INSERT INTO login_attempts (scope, key, failures, last_failed_at)
+				VALUES (${scope}, ${key}, 1, NOW())
+				ON CONFLICT (scope, key) DO UPDATE
+				SET failures = CASE
+						WHEN login_attempts.last_failed_at < ${new Date(Date.now() - FAILURE_WINDOW)}
+						THEN 1
+						ELSE login_attempts.failures + 1
+					END,
+					last_failed_at = NOW()
+				RETURNING failures
+			`;
+			const lockoutTime = getLockoutTime(scope, failures);
+
+			if (lockoutTime > 0) {
+				await connection`
+					UPDATE login_attempts
+					SET locked_until = ${new Date(Date.now() + lockoutTime)}
+					WHERE scope = ${scope} AND key = ${key}
+				`;
+			}
+		}
+
+		await connection.release();
+	}
+
+	/**
+	 * Forgets the failures of the account, which also unlocks it.
+	 * Called after a successful login and by admins.
+	 */
+	static async reset(sql: postgres.Sql<any>, email: string) {
+		const connection = await sql.reserve();
+
+		await connection`
+			DELETE FROM login_attempts
+			WHERE scope = 'account' AND key = ${normalize("account", email)}
+		`;
+
+		await connection.release();
+	}
+
+	/**
+	 * @returns Which of the given emails belong to accounts that are currently locked.
+	 */
+	static async readLocked(sql: postgres.Sql<any>, emails: string[]) {
+		if (emails.length === 0) {
+			return new Set<string>();
+		}
+
+		const connection = await sql.reserve();
+
+		const rows = await connection<{ key: string }[]>`
+			SELECT key FROM login_attempts
+			WHERE scope = 'account'
+				AND key IN ${sql(emails.map((email) => normalize("account", email)))}
+				AND locked_until > NOW()
+		`;
+
+		await connection.release();
+
+		const keys = new Set(rows.map(({ key }) => key));
+
+		return new Set(
+			emails.filter((email) => keys.has(normalize("account", email))),
+		);
+	}
+}
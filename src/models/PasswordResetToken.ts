@@ -0,0 +1,89 @@
+import postgres from "postgres";
+import crypto from "crypto";
+import { createUTCDate } from "../utils";
+
+/**
+ * How long a password reset link works.
+ */
+export const PASSWORD_RESET_TOKEN_TIME = 1000 * 60 * 60; // Milliseconds * seconds * minutes.
+
+const hash = (token: string) => {
+	return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * A password reset token is emailed to the user as part of a link and
+ * proves that whoever follows the link can read the user's email. Only
+ * a hash of the token is stored, so that the tokens can't be used by
+ * anyone who reads the table. A token works once, until it expires, and
+ * only the newest token of a user works at all.
+ * @see https://cheatsheetseries.owasp.org/cheatsheets/Forgot_Password_Cheat_Sheet.html
+ */
+export default class PasswordResetToken {
+	/**
+	 * Issues a new token for the user and revokes any they had before.
+	 * @returns The token to put in the link. It is never stored as is.
+	 */
+	static async create(sql: postgres.Sql<any>, userId: number) {
+		const connection = await sql.reserve();
+		const token = crypto.randomBytes(32).toString("hex");
+
+		await connection`
+			DELETE FROM password_reset_tokens
+			WHERE user_id = ${userId}
+		`;
+
+		await connection`
+			INSERT INTO password_reset_tokens
+				${sql({
+					user_id: userId,
+					token_hash: hash(token),
+					expires_at: new Date(
+						Date.now() + PASSWORD_RESET_TOKEN_TIME,
+					),
+					created_at: createUTCDate(),
+				})}
+		`;
+
+		await connection.release();
+
+		return token;
+	}
+
+	/**
+	 * Checks the token without using it up, so that the reset form is only
+	 * shown for links that still work.
+	 * @returns The ID of the user the token belongs to, or `null` if the token isn't valid.
+	 */
+	static async verify(sql: postgres.Sql<any>, token: string) {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<{ userId: number }[]>`
+			SELECT user_id AS "userId" FROM password_reset_tokens
+			WHERE token_hash = ${hash(token)} AND expires_at > NOW()
+		`;
+
+		await connection.release();
+
+		return row?.userId ?? null;
+	}
+
+	/**
+	 * Uses up the token. Deleting and checking it in one statement
+	 * means that two requests can't both use the same token.
+	 * @returns The ID of the user the token belongs to, or `null` if the token isn't valid.
+	 */
+	static async consume(sql: postgres.Sql<any>, token: string) {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<{ userId: number; expired: boolean }[]>`
+			DELETE FROM password_reset_tokens
+			WHERE token_hash = ${hash(token)}
+			RETURNING user_id AS "userId", expires_at <= NOW() AS expired
+		`;
+
+		await connection.release();
+
+		return row && !row.expired ? row.userId : null;
+	}
+}
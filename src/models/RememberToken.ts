@@ -0,0 +1,137 @@
+import postgres from "postgres";
+import crypto from "crypto";
+import {
+	camelToSnake,
+	convertToCase,
+	createUTCDate,
+	snakeToCamel,
+} from "../utils";
+
+export interface RememberTokenProps {
+	id?: number;
+	userId: number;
+	selector: string;
+	validatorHash: string;
+	expiresAt: Date;
+	createdAt: Date;
+}
+
+/**
+ * How long a "remember me" login lasts.
+ */
+export const REMEMBER_TOKEN_TIME = 1000 * 60 * 60 * 24 * 30; // Milliseconds * seconds * minutes * hours * days.
+
+const hash = (validator: string) => {
+	return crypto.createHash("sha256").update(validator).digest("hex");
+};
+
+/**
+ * A "remember me" token lets a user be logged back in once their session
+ * has expired. The token handed to the client is made of two parts:
+ * a selector to find the row, and a validator that is only stored as a
+ * hash, so that the tokens can't be used by anyone who reads the table.
+ * Deleting the row revokes the token.
+ * @see https://paragonie.com/blog/2015/04/secure-authentication-php-with-long-term-persistence#title.2
+ * @example "3f2a9c...:b81d07..." => selector: "3f2a9c...", validator: "b81d07..."
+ */
+export default class RememberToken {
+	/**
+	 * Issues a new token for the user.
+	 * @returns The token to give to the client. It is never stored as is.
+	 */
+	static async create(sql: postgres.Sql<any>, userId: number) {
+		const connection = await sql.reserve();
+
+		const selector = crypto.randomBytes(12).toString("hex");
+		const validator = crypto.randomBytes(32).toString("hex");
+		const props: RememberTokenProps = {
+			userId,
+			selector,
+			validatorHash: hash(validator),
+			expiresAt: new Date(Date.now() + REMEMBER_TOKEN_TIME),
+			createdAt: createUTCDate(),
+		};
+
+		await connection`
+			INSERT INTO remember_tokens
+				${sql(convertToCase(camelToSnake, props))}
+		`;
+
+		await connection.release();
+
+		return `${selector}:${validator}`;
+	}
+
+	/**
+	 * Checks the token against the one that was issued.
+	 * Expired tokens are deleted along the way.
+	 * @returns The ID of the user the token belongs to, or `null` if the token isn't valid.
+	 */
+	static async verify(sql: postgres.Sql<any>, token: string) {
+		const [selector, validator] = token.split(":");
+
+		if (!selector || !validator) {
+			return null;
+		}
+
+		const connection = await sql.reserve();
+
+		const [row] = await connection<RememberTokenProps[]>`
+			SELECT * FROM
+			remember_tokens WHERE selector = ${selector}
+		`;
+
+		await connection.release();
+
+		if (!row) {
+			return null;
+		}
+
+		const props = convertToCase(snakeToCamel, row) as RememberTokenProps;
+
+		if (props.expiresAt.getTime() <= Date.now()) {
+			await RememberToken.revoke(sql, token);
+			return null;
+		}
+
+		const expected = Buffer.from(props.validatorHash);
+		const actual = Buffer.from(hash(validator));
+
+		// Comparing in constant time doesn't give away how much of the validator was right.
+		if (!crypto.timingSafeEqual(expected, actual)) {
+			return null;
+		}
+
+		return props.userId;
+	}
+
+	/**
+	 * Deletes the token so that it can't be used anymore.
+	 */
+	static async revoke(sql: postgres.Sql<any>, token: string) {
+		const [selector] = token.split(":");
+		const connection = await sql.reserve();
+
+		await connection`
+			DELETE FROM remember_tokens
+			WHERE selector = ${selector}
+		`;
+
+		await connection.release();
+	}
+
+	/**
+	 * Deletes every token of the user, so that no device
+	 * can log them back in, like after a password reset.
+	 */
+	static async revokeAll(sql: postgres.Sql<any>, userId: number) {
+		const connection = await sql.reserve();
+
+		await connection`
+			DELETE FROM remember_tokens
+			WHERE user_id = ${userId}
+		`;
+
+		await connection.release();
+	}
+}
@@ -0,0 +1,131 @@
+import postgres from "postgres";
+import {
+	camelToSnake,
+	convertToCase,
+	createUTCDate,
+	snakeToCamel,
+} from "../utils";
+
+export interface SubTodoProps {
+	id?: number;
+	title: string;
+	status: "incomplete" | "complete";
+	createdAt: Date;
+	completedAt?: Date;
+	editedAt?: Date;
+	todoId: number;
+}
+
+/**
+ * A smaller step of a todo. Sub-todos belong to exactly one todo
+ * and are deleted along with it.
+ */
+export default class SubTodo {
+	constructor(
+		private sql: postgres.Sql<any>,
+		public props: SubTodoProps,
+	) {}
+
+	static async create(sql: postgres.Sql<any>, props: SubTodoProps) {
+		const connection = await sql.reserve();
+
+		props.createdAt = props.createdAt ?? createUTCDate();
+
+		const [row] = await connection<SubTodoProps[]>`
+			INSERT INTO subtodos
+				${sql(convertToCase(camelToSnake, props))}
+			RETURNING *
+		`;
+
+		await connection.release();
+
+		return new SubTodo(
+			sql,
+			convertToCase(snakeToCamel, row) as SubTodoProps,
+		);
+	}
+
+	static async read(sql: postgres.Sql<any>, id: number) {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<SubTodoProps[]>`
+			SELECT * FROM
+			subtodos WHERE id = ${id}
+		`;
+
+		await connection.release();
+
+		if (!row) {
+			return null;
+		}
+
+		return new SubTodo(
+			sql,
+			convertToCase(snakeToCamel, row) as SubTodoProps,
+		);
+	}
+
+	/**
+	 * Reads all the sub-todos of a todo in the order they were created.
+	 */
+	static async readAll(
+		sql: postgres.Sql<any>,
+		todoId: number,
+	): Promise<SubTodo[]> {
+		const connection = await sql.reserve();
+
+		const rows = await connection<SubTodoProps[]>`
+			SELECT *
+			FROM subtodos
+			WHERE todo_id = ${todoId}
+			ORDER BY id
+		`;
+
+		await connection.release();
+
+		return rows.map(
+			(row) =>
+				new SubTodo(
+					sql,
+					convertToCase(snakeToCamel, row) as SubTodoProps,
+				),
+		);
+	}
+
+	async update(updateProps: Partial<SubTodoProps>) {
+		const connection = await this.sql.reserve();
+
+		const [row] = await connection`
+			UPDATE subtodos
+			SET
+				${this.sql(convertToCase(camelToSnake, updateProps))}, edited_at = ${createUTCDate()}
+			WHERE
+				id = ${this.props.id}
+			RETURNING *
+		`;
+
+		await connection.release();
+
+		this.props = { ...this.props, ...convertToCase(snakeToCamel, row) };
+	}
+
+	async delete() {
+		const connection = await this.sql.reserve();
+
+		const result = await connection`
+			DELETE FROM subtodos
+			WHERE id = ${this.props.id}
+		`;
+
+		await connection.release();
+
+		return result.count === 1;
+	}
+
+	async markComplete() {
+		await this.update({
+			status: "complete",
+			completedAt: createUTCDate(),
+		});
+	}
+}
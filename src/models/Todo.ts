@@ -18,6 +18,158 @@ export interface TodoProps {
 	userId: number;
 }
 
+/**
+ * Conditions that narrow down the todos returned by `Todo.readAll`.
+ * The date ranges are inclusive on both ends.
+ */
+export interface TodoFilters {
+	status?: TodoProps["status"];
+	dueAfter?: Date;
+	dueBefore?: Date;
+	createdAfter?: Date;
+	createdBefore?: Date;
+}
+
+/**
+ * The only columns a list of todos may be sorted by. Since column
+ * names can't be passed as query parameters, anything that ends up
+ * in the ORDER BY clause has to come from this list.
+ */
+export const SORTABLE_COLUMNS = [
+	"id",
+	"title",
+	"description",
+	"status",
+	"dueAt",
+	"createdAt",
+	"completedAt",
+	"editedAt",
+] as const;
+
+export type SortableColumn = (typeof SORTABLE_COLUMNS)[number];
+
+export const isSortableColumn = (column: string): column is SortableColumn => {
+	return (SORTABLE_COLUMNS as readonly string[]).includes(column);
+};
+
+/**
+ * How many todos are listed per page when the client doesn't ask
+ * for a specific `limit`, and the most it is allowed to ask for.
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * How many todos to read at once and where to start. A page can
+ * either start `offset` rows in, or right after (or before) the
+ * todo that an opaque `cursor` points to.
+ */
+export interface TodoPagination {
+	limit: number;
+	offset?: number;
+	cursor?: string;
+}
+
+/**
+ * One page of todos along with what's needed to get to the pages
+ * around it. The cursors are `null` when there is no such page.
+ */
+export interface TodoPage {
+	todos: Todo[];
+	total: number;
+	nextCursor: string | null;
+	prevCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+	constructor() {
+		super("Invalid cursor.");
+	}
+}
+
+/**
+ * What a cursor points to: the value of the sorted column and the ID
+ * of a todo, which together are unique even when values repeat.
+ * `backward` means the page ends right before that todo instead of
+ * starting right after it. The sort the cursor was made for is kept
+ * with it, since the value means nothing in any other order.
+ */
+interface Cursor {
+	value: any;
+	id: number;
+	backward: boolean;
+	sortBy: SortableColumn;
+	orderBy: "asc" | "desc";
+}
+
+/**
+ * Cursors are base64url encoded so that clients treat them as opaque
+ * tokens rather than something to build by hand.
+ */
+const encodeCursor = (cursor: Cursor) => {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+};
+
+/**
+ * Checks that the value has the type of the column it is compared to,
+ * so that a tampered cursor fails here instead of in the database.
+ */
+const isCursorValue = (column: SortableColumn, value: unknown) => {
+	if (column === "id") {
+		return Number.isInteger(value);
+	}
+
+	if (value === null) {
+		return true;
+	}
+
+	if (column.endsWith("At")) {
+		return typeof value === "string" && !isNaN(Date.parse(value));
+	}
+
+	return typeof value === "string";
+};
+
+/**
+ * @throws InvalidCursorError if the cursor can't be decoded or was made for another sort.
+ */
+const decodeCursor = (
+	cursor: string,
+	sortBy: SortableColumn,
+	orderBy: Cursor["orderBy"],
+): Cursor => {
+	try {
+		const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+		if (
+			typeof decoded?.id === "number" &&
+			decoded.sortBy === sortBy &&
+			decoded.orderBy === orderBy &&
+			isCursorValue(sortBy, decoded.value)
+		) {
+			return { ...decoded, backward: decoded.backward === true };
+		}
+	} catch (error) {
+		// Fall through to the error below.
+	}
+
+	throw new InvalidCursorError();
+};
+
+/**
+ * Anything that isn't a sortable column is sorted by ID, and anything
+ * other than `desc` is sorted in ascending order.
+ */
+const normalizeSort = (sortBy: string, orderBy: string) => {
+	return {
+		sortBy: isSortableColumn(sortBy) ? sortBy : ("id" as const),
+		orderBy:
+			orderBy.toLowerCase() === "desc"
+				? ("desc" as const)
+				: ("asc" as const),
+	};
+};
+
 export default class Todo {
 	constructor(
 		private sql: postgres.Sql<any>,
@@ -57,28 +209,182 @@ export default class Todo {
 		return new Todo(sql, convertToCase(snakeToCamel, row) as TodoProps);
 	}
 
+	/**
+	 * Reads the todos of a user. When `pagination` is given, only one
+	 * page of todos is read, starting at either the offset or the cursor.
+	 * @throws InvalidCursorError if the cursor can't be decoded or doesn't match the sort.
+	 */
 	static async readAll(
 		sql: postgres.Sql<any>,
 		userId: number,
-		filters?: Partial<TodoProps>,
-		sortBy?: string,
-		orderBy?: string,
+		filters: TodoFilters = {},
+		sortBy = "id",
+		orderBy = "asc",
+		pagination?: TodoPagination,
 	): Promise<Todo[]> {
+		const sort = normalizeSort(sortBy, orderBy);
+		const cursor = pagination?.cursor
+			? decodeCursor(pagination.cursor, sort.sortBy, sort.orderBy)
+			: null;
+		const column = camelToSnake(sort.sortBy);
+
+		// Reading backward from a cursor means reading in the opposite
+		// order and then flipping the rows back around at the end.
+		const descending =
+			(sort.orderBy === "desc") !== (cursor?.backward ?? false);
+		const direction = descending ? sql`DESC` : sql`ASC`;
+
 		const connection = await sql.reserve();
 
 		const rows = await connection<TodoProps[]>`
 			SELECT *
 			FROM todos
+			WHERE user_id = ${userId}
+				${Todo.filterConditions(sql, filters)}
+				${cursor ? Todo.cursorCondition(sql, column, cursor, descending) : sql``}
+			ORDER BY ${sql(column)} ${direction}, id ${direction}
+			${pagination ? sql`LIMIT ${pagination.limit}` : sql``}
+			${pagination?.offset ? sql`OFFSET ${pagination.offset}` : sql``}
 		`;
 
 		await connection.release();
 
+		if (cursor?.backward) {
+			rows.reverse();
+		}
+
 		return rows.map(
 			(row) =>
 				new Todo(sql, convertToCase(snakeToCamel, row) as TodoProps),
 		);
 	}
 
+	/**
+	 * Reads one page of a user's todos along with the total number of
+	 * todos and the cursors for the next and previous pages. One extra
+	 * row is read to find out whether there is anything past this page.
+	 * @throws InvalidCursorError if the cursor can't be decoded or doesn't match the sort.
+	 */
+	static async readPage(
+		sql: postgres.Sql<any>,
+		userId: number,
+		filters: TodoFilters = {},
+		sortBy = "id",
+		orderBy = "asc",
+		pagination: TodoPagination,
+	): Promise<TodoPage> {
+		const sort = normalizeSort(sortBy, orderBy);
+		const cursor = pagination.cursor
+			? decodeCursor(pagination.cursor, sort.sortBy, sort.orderBy)
+			: null;
+
+		const todos = await Todo.readAll(
+			sql,
+			userId,
+			filters,
+			sortBy,
+			orderBy,
+			{
+				...pagination,
+				limit: pagination.limit + 1,
+			},
+		);
+
+		// The extra row is furthest from the cursor, which is the
+		// start of the list when reading backward.
+		const hasMore = todos.length > pagination.limit;
+
+		if (hasMore && cursor?.backward) {
+			todos.shift();
+		} else if (hasMore) {
+			todos.pop();
+		}
+
+		const hasNext = cursor?.backward ? true : hasMore;
+		const hasPrev = cursor
+			? !cursor.backward || hasMore
+			: (pagination.offset ?? 0) > 0;
+
+		const toCursor = (todo: Todo | undefined, backward: boolean) => {
+			return todo
+				? encodeCursor({
+						value: todo.props[sort.sortBy] ?? null,
+						id: todo.props.id!,
+						backward,
+						...sort,
+					})
+				: null;
+		};
+
+		return {
+			todos,
+			total: await Todo.count(sql, userId, filters),
+			nextCursor: hasNext ? toCursor(todos.at(-1), false) : null,
+			prevCursor: hasPrev ? toCursor(todos.at(0), true) : null,
+		};
+	}
+
+	static async count(
+		sql: postgres.Sql<any>,
+		userId: number,
+		filters: TodoFilters = {},
+	): Promise<number> {
+		const connection = await sql.reserve();
+
+		const [{ count }] = await connection<{ count: number }[]>`
+			SELECT COUNT(*)::int AS count
+			FROM todos
+			WHERE user_id = ${userId}
+				${Todo.filterConditions(sql, filters)}
+		`;
+
+		await connection.release();
+
+		return count;
+	}
+
+	/**
+	 * @returns The SQL conditions for the given filters, each starting with AND.
+	 */
+	private static filterConditions(
+		sql: postgres.Sql<any>,
+		filters: TodoFilters,
+	) {
+		return sql`
+			${filters.status ? sql`AND status = ${filters.status}` : sql``}
+			${filters.dueAfter ? sql`AND due_at >= ${filters.dueAfter}` : sql``}
+			${filters.dueBefore ? sql`AND due_at <= ${filters.dueBefore}` : sql``}
+			${filters.createdAfter ? sql`AND created_at >= ${filters.createdAfter}` : sql``}
+			${filters.createdBefore ? sql`AND created_at <= ${filters.createdBefore}` : sql``}
+		`;
+	}
+
+	/**
+	 * Builds the condition that keeps only the rows that come after the
+	 * cursor in the given order. Postgres puts NULLs last when sorting
+	 * in ascending order and first when sorting in descending order,
+	 * so NULLs need to be handled on their own.
+	 * @see https://www.postgresql.org/docs/current/queries-order.html
+	 */
+	private static cursorCondition(
+		sql: postgres.Sql<any>,
+		column: string,
+		{ value, id }: Cursor,
+		descending: boolean,
+	) {
+		const col = sql(column);
+
+		if (descending) {
+			return value === null
+				? sql`AND (${col} IS NOT NULL OR id < ${id})`
+				: sql`AND (${col} < ${value} OR (${col} = ${value} AND id < ${id}))`;
+		}
+
+		return value === null
+			? sql`AND ${col} IS NULL AND id > ${id}`
+			: sql`AND (${col} > ${value} OR (${col} = ${value} AND id > ${id}) OR ${col} IS NULL)`;
+	}
+
 	async update(updateProps: Partial<TodoProps>) {
 		const connection = await this.sql.reserve();
 
@@ -1,11 +1,21 @@
 import postgres from "postgres";
+import bcrypt from "bcrypt";
+import {
+	camelToSnake,
+	convertToCase,
+	createUTCDate,
+	snakeToCamel,
+} from "../utils";
 
 export interface UserProps {
 	id?: number;
 	email: string;
 	password: string;
+	profile?: string;
+	isAdmin?: boolean;
 	createdAt: Date;
 	editedAt?: Date;
+	verifiedAt?: Date | null;
 }
 
 export class DuplicateEmailError extends Error {
@@ -20,6 +30,22 @@ export class InvalidCredentialsError extends Error {
 	}
 }
 
+/**
+ * The number of rounds bcrypt uses to generate the salt.
+ * The higher the number, the longer it takes to hash a password.
+ * @see https://www.npmjs.com/package/bcrypt#a-note-on-rounds
+ */
+const SALT_ROUNDS = 10;
+
+/**
+ * Postgres raises error code 23505 when a UNIQUE constraint
+ * is violated, which for the users table means the email is taken.
+ * @see https://www.postgresql.org/docs/current/errcodes-appendix.html
+ */
+const isUniqueViolation = (error: unknown) => {
+	return error instanceof postgres.PostgresError && error.code === "23505";
+};
+
 export default class User {
 	constructor(
 		private sql: postgres.Sql<any>,
@@ -27,22 +53,195 @@ export default class User {
 	) {}
 
 	/**
-	 * TODO: Implement this method. It should insert a new
-	 * row into the "users" table with the provided props.
+	 * Inserts a new row into the "users" table with the provided props.
+	 * The password is hashed before it is stored, but the returned
+	 * User keeps the plain text password that was passed in.
+	 * @throws DuplicateEmailError if a user with the email already exists.
 	 */
 	static async create(
 		sql: postgres.Sql<any>,
 		props: UserProps,
-	): Promise<User> {}
+	): Promise<User> {
+		const connection = await sql.reserve();
+
+		props.createdAt = props.createdAt ?? createUTCDate();
+
+		const hashedPassword = await bcrypt.hash(props.password, SALT_ROUNDS);
+		let row: UserProps;
+
+		try {
+			[row] = await connection<UserProps[]>`
+				INSERT INTO users
+					${sql(convertToCase(camelToSnake, { ...props, password: hashedPassword }))}
+				RETURNING *
+			`;
+		} catch (error) {
+			if (isUniqueViolation(error)) {
+				throw new DuplicateEmailError();
+			}
+
+			throw error;
+		} finally {
+			await connection.release();
+		}
+
+		return new User(sql, {
+			...(convertToCase(snakeToCamel, row) as UserProps),
+			password: props.password,
+		});
+	}
 
 	/**
-	 * TODO: To "log in" a user, we need to check if the
-	 * provided email and password match an existing row
-	 * in the database. If they do, we return a new User instance.
+	 * To "log in" a user, we check if the provided email and
+	 * password match an existing row in the database. If they do,
+	 * we return a new User instance.
+	 * @throws InvalidCredentialsError if the email or password is wrong.
 	 */
 	static async login(
 		sql: postgres.Sql<any>,
 		email: string,
 		password: string,
-	): Promise<User> {}
+	): Promise<User> {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<UserProps[]>`
+			SELECT * FROM
+			users WHERE email = ${email}
+		`;
+
+		await connection.release();
+
+		if (!row || !(await bcrypt.compare(password, row.password))) {
+			throw new InvalidCredentialsError();
+		}
+
+		return new User(sql, {
+			...(convertToCase(snakeToCamel, row) as UserProps),
+			password,
+		});
+	}
+
+	static async read(sql: postgres.Sql<any>, id: number) {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<UserProps[]>`
+			SELECT * FROM
+			users WHERE id = ${id}
+		`;
+
+		await connection.release();
+
+		if (!row) {
+			return null;
+		}
+
+		return new User(sql, convertToCase(snakeToCamel, row) as UserProps);
+	}
+
+	/**
+	 * @returns The user with the given email, or `null` if there is none.
+	 */
+	static async readByEmail(sql: postgres.Sql<any>, email: string) {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<UserProps[]>`
+			SELECT * FROM
+			users WHERE email = ${email}
+		`;
+
+		await connection.release();
+
+		if (!row) {
+			return null;
+		}
+
+		return new User(sql, convertToCase(snakeToCamel, row) as UserProps);
+	}
+
+	/**
+	 * Reads all users, or only those whose email contains `search`.
+	 * @example User.readAll(sql, "@example.com")
+	 */
+	static async readAll(
+		sql: postgres.Sql<any>,
+		search?: string,
+	): Promise<User[]> {
+		const connection = await sql.reserve();
+
+		// Escape the characters that LIKE treats as wildcards.
+		const pattern = `%${search?.replace(/[\\%_]/g, "\\$&")}%`;
+
+		const rows = await connection<UserProps[]>`
+			SELECT *
+			FROM users
+			${search ? sql`WHERE email ILIKE ${pattern}` : sql``}
+			ORDER BY id
+		`;
+
+		await connection.release();
+
+		return rows.map(
+			(row) =>
+				new User(sql, convertToCase(snakeToCamel, row) as UserProps),
+		);
+	}
+
+	/**
+	 * Updates the user with the provided props. If a new password is
+	 * provided, it is hashed before being stored.
+	 * @throws DuplicateEmailError if the new email belongs to another user.
+	 */
+	async update(updateProps: Partial<UserProps>) {
+		const connection = await this.sql.reserve();
+
+		const columns = { ...updateProps };
+
+		if (columns.password) {
+			columns.password = await bcrypt.hash(columns.password, SALT_ROUNDS);
+		}
+
+		let row: UserProps;
+
+		try {
+			[row] = await connection<UserProps[]>`
+				UPDATE users
+				SET
+					${this.sql(convertToCase(camelToSnake, columns))}, edited_at = ${createUTCDate()}
+				WHERE
+					id = ${this.props.id}
+				RETURNING *
+			`;
+		} catch (error) {
+			if (isUniqueViolation(error)) {
+				throw new DuplicateEmailError();
+			}
+
+			throw error;
+		} finally {
+			await connection.release();
+		}
+
+		this.props = {
+			...this.props,
+			...convertToCase(snakeToCamel, row),
+			password: updateProps.password ?? this.props.password,
+		};
+	}
+
+	async toggleAdmin() {
+		await this.update({ isAdmin: !this.props.isAdmin });
+	}
+
+	async delete() {
+		const connection = await this.sql.reserve();
+
+		const result = await connection`
+			DELETE FROM users
+			WHERE id = ${this.props.id}
+		`;
+
+		await connection.release();
+
+		return result.count === 1;
+	}
 }
@@ -0,0 +1,213 @@
+import postgres from "postgres";
+import {
+	camelToSnake,
+	convertToCase,
+	createUTCDate,
+	snakeToCamel,
+} from "../utils";
+import {
+	DEFAULT_PAGE_SIZE,
+	MAX_PAGE_SIZE,
+	SortableColumn,
+	isSortableColumn,
+} from "./Todo";
+
+export const THEMES = ["light", "dark"] as const;
+
+export type Theme = (typeof THEMES)[number];
+
+export interface UserSettingsProps {
+	userId?: number;
+	theme: Theme;
+	timezone: string;
+	locale: string;
+	sortBy: SortableColumn;
+	orderBy: "asc" | "desc";
+	pageSize: number;
+	editedAt?: Date;
+}
+
+/**
+ * What everyone gets until they save their own settings.
+ */
+export const DEFAULT_SETTINGS: UserSettingsProps = {
+	theme: "light",
+	timezone: "UTC",
+	locale: "en-US",
+	sortBy: "id",
+	orderBy: "asc",
+	pageSize: DEFAULT_PAGE_SIZE,
+};
+
+export class InvalidSettingsError extends Error {}
+
+export default class UserSettings {
+	constructor(
+		private sql: postgres.Sql<any>,
+		public props: UserSettingsProps,
+	) {}
+
+	/**
+	 * Reads the settings of a user. Users who never saved
+	 * any settings get the defaults.
+	 */
+	static async read(
+		sql: postgres.Sql<any>,
+		userId: number,
+	): Promise<UserSettings> {
+		const connection = await sql.reserve();
+
+		const [row] = await connection<UserSettingsProps[]>`
+			SELECT * FROM
+			user_settings WHERE user_id = ${userId}
+		`;
+
+		await connection.release();
+
+		return new UserSettings(sql, {
+			...DEFAULT_SETTINGS,
+			...(row ? convertToCase(snakeToCamel, row) : {}),
+			userId,
+		});
+	}
+
+	/**
+	 * Checks the settings sent by a form, a JSON body, or stored in a
+	 * cookie. Settings that are missing or blank are left out, so the
+	 * result can be merged over the current settings.
+	 * @throws InvalidSettingsError if any of the settings is invalid.
+	 * @example UserSettings.parse({ theme: "dark", pageSize: "10" }) => { theme: "dark", pageSize: 10 }
+	 */
+	static parse(input: Record<string, any>): Partial<UserSettingsProps> {
+		const settings: Partial<UserSettingsProps> = {};
+		const { theme, timezone, locale, sortBy, orderBy, pageSize } = input;
+
+		if (theme) {
+			if (!THEMES.includes(theme)) {
+				throw new InvalidSettingsError(
+					`Theme must be one of: ${THEMES.join(", ")}.`,
+				);
+			}
+
+			settings.theme = theme;
+		}
+
+		if (timezone) {
+			try {
+				// Throws a RangeError for time zones that don't exist.
+				new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+			} catch {
+				throw new InvalidSettingsError(
+					`Unknown time zone: ${timezone}.`,
+				);
+			}
+
+			settings.timezone = timezone;
+		}
+
+		if (locale) {
+			try {
+				[settings.locale] = Intl.getCanonicalLocales(locale);
+			} catch {
+				throw new InvalidSettingsError(`Unknown locale: ${locale}.`);
+			}
+		}
+
+		if (sortBy) {
+			if (!isSortableColumn(sortBy)) {
+				throw new InvalidSettingsError(`Cannot sort by ${sortBy}.`);
+			}
+
+			settings.sortBy = sortBy;
+		}
+
+		if (orderBy) {
+			if (orderBy !== "asc" && orderBy !== "desc") {
+				throw new InvalidSettingsError(
+					"Order must be either asc or desc.",
+				);
+			}
+
+			settings.orderBy = orderBy;
+		}
+
+		if (pageSize) {
+			const size = Number(pageSize);
+
+			if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+				throw new InvalidSettingsError(
+					`Page size must be a whole number between 1 and ${MAX_PAGE_SIZE}.`,
+				);
+			}
+
+			settings.pageSize = size;
+		}
+
+		return settings;
+	}
+
+	/**
+	 * Anonymous visitors don't have a row in the database, so
+	 * their settings are kept in a cookie instead. The cookie
+	 * encodes the value itself when it is set.
+	 * @example toCookieValue(settings) => "theme=dark&...&pageSize=10"
+	 */
+	static toCookieValue(settings: UserSettingsProps) {
+		const { theme, timezone, locale, sortBy, orderBy, pageSize } = settings;
+
+		return new URLSearchParams({
+			theme,
+			timezone,
+			locale,
+			sortBy,
+			orderBy,
+			pageSize: String(pageSize),
+		}).toString();
+	}
+
+	/**
+	 * Reads the settings stored by `toCookieValue`. Since cookies can
+	 * be tampered with, a cookie with invalid settings is ignored.
+	 */
+	static fromCookieValue(value: string): UserSettingsProps {
+		try {
+			return {
+				...DEFAULT_SETTINGS,
+				...UserSettings.parse(
+					Object.fromEntries(new URLSearchParams(value)),
+				),
+			};
+		} catch {
+			return DEFAULT_SETTINGS;
+		}
+	}
+
+	/**
+	 * Saves the settings, creating the user's row the first time.
+	 * @see https://www.postgresql.org/docs/current/sql-insert.html#SQL-ON-CONFLICT
+	 */
+	async save(updateProps: Partial<UserSettingsProps>) {
+		const connection = await this.sql.reserve();
+
+		const { userId, editedAt, ...settings } = {
+			...this.props,
+			...updateProps,
+		};
+		const columns = convertToCase(camelToSnake, {
+			...settings,
+			editedAt: createUTCDate(),
+		});
+
+		const [row] = await connection<UserSettingsProps[]>`
+			INSERT INTO user_settings
+				${this.sql({ ...columns, user_id: this.props.userId })}
+			ON CONFLICT (user_id) DO UPDATE
+			SET ${this.sql(columns)}
+			RETURNING *
+		`;
+
+		await connection.release();
+
+		this.props = convertToCase(snakeToCamel, row) as UserSettingsProps;
+	}
+}
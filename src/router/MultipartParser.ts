@@ -0,0 +1,369 @@
+/**
+ * A file that was sent in a `multipart/form-data` request body.
+ * @property field The name of the form field the file was sent in.
+ * @property filename The file name the client sent. Never use it as a path.
+ * @property declaredType The MIME type the client claims the file has.
+ * @property mimeType The MIME type detected from the file's contents,
+ * or `undefined` if it isn't one of the types we recognize.
+ * @property size The size of the file in bytes.
+ * @property data The contents of the file.
+ */
+export interface UploadedFile {
+	field: string;
+	filename: string;
+	declaredType: string;
+	mimeType: string | undefined;
+	size: number;
+	data: Buffer;
+}
+
+/**
+ * Limits that protect the server from overly large request bodies.
+ * @property maxFileSize The maximum size of a single file in bytes.
+ * @property maxFiles The maximum number of files in one request.
+ * @property maxFieldSize The maximum size of a single text field in bytes.
+ */
+export interface MultipartOptions {
+	maxFileSize: number;
+	maxFiles: number;
+	maxFieldSize: number;
+}
+
+export const defaultMultipartOptions: MultipartOptions = {
+	maxFileSize: 5 * 1024 * 1024,
+	maxFiles: 10,
+	maxFieldSize: 64 * 1024,
+};
+
+/**
+ * Thrown when a multipart body goes over one of the `MultipartOptions` limits.
+ */
+export class PayloadTooLargeError extends Error {}
+
+/**
+ * The headers of a single part should never get anywhere near this size.
+ */
+const MAX_HEADER_SIZE = 16 * 1024;
+
+/**
+ * The first bytes ("magic numbers") of the file types we recognize.
+ * The MIME type a client declares is only a claim, so we check the
+ * contents of the file itself before trusting it.
+ * @see https://en.wikipedia.org/wiki/List_of_file_signatures
+ */
+const FILE_SIGNATURES: {
+	mimeType: string;
+	matches: (data: Buffer) => boolean;
+}[] = [
+	{
+		mimeType: "image/png",
+		matches: (data) =>
+			data
+				.subarray(0, 8)
+				.equals(
+					Buffer.from([
+						0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+					]),
+				),
+	},
+	{
+		mimeType: "image/jpeg",
+		matches: (data) =>
+			data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+	},
+	{
+		mimeType: "image/gif",
+		matches: (data) =>
+			["GIF87a", "GIF89a"].includes(
+				data.subarray(0, 6).toString("latin1"),
+			),
+	},
+	{
+		mimeType: "image/webp",
+		matches: (data) =>
+			data.subarray(0, 4).toString("latin1") === "RIFF" &&
+			data.subarray(8, 12).toString("latin1") === "WEBP",
+	},
+];
+
+/**
+ * @returns The MIME type detected from the contents of a file, if it's a known type.
+ * @example sniffMimeType(fs.readFileSync("pikachu.png")) => "image/png"
+ */
+export const sniffMimeType = (data: Buffer) => {
+	return FILE_SIGNATURES.find(({ matches }) => matches(data))?.mimeType;
+};
+
+interface Part {
+	name: string;
+	filename?: string;
+	contentType: string;
+	chunks: Buffer[];
+	size: number;
+}
+
+/**
+ * Parses a `multipart/form-data` body chunk by chunk as it streams in,
+ * so a body never has to be held in memory as one big string, and a
+ * body that goes over the limits is rejected as soon as it does.
+ * A body is a series of parts separated by a boundary, each part
+ * having its own headers followed by a blank line and its contents:
+ *
+ * --boundary
+ * Content-Disposition: form-data; name="email"
+ *
+ * user@email.com
+ * --boundary
+ * Content-Disposition: form-data; name="avatar"; filename="pikachu.png"
+ * Content-Type: image/png
+ *
+ * <binary data>
+ * --boundary--
+ *
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Methods/POST#multipart_form_data
+ * @see https://datatracker.ietf.org/doc/html/rfc7578
+ */
+export default class MultipartParser {
+	fields: Record<string, string> = {};
+	files: Record<string, UploadedFile> = {};
+
+	private state: "preamble" | "boundary" | "headers" | "body" | "done" =
+		"preamble";
+	private delimiter: Buffer;
+	// The first boundary isn't preceded by a line break like all the others, so we add one.
+	private buffer = Buffer.from("\r\n");
+	private part: Part | undefined;
+	private fileCount = 0;
+
+	constructor(
+		boundary: string,
+		private options: MultipartOptions = defaultMultipartOptions,
+	) {
+		this.delimiter = Buffer.from(`\r\n--${boundary}`);
+	}
+
+	/**
+	 * @returns The boundary from a `Content-Type` header, if it has one.
+	 * @example multipart/form-data; boundary=----abc123 => ----abc123
+	 */
+	static getBoundary(contentType: string) {
+		const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+		return match?.[1] ?? match?.[2];
+	}
+
+	/**
+	 * Feeds the next chunk of the body to the parser.
+	 * @throws PayloadTooLargeError if the body goes over one of the limits.
+	 * @throws Error if the body is malformed.
+	 */
+	write(chunk: Buffer) {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+
+		while (this.step()) {}
+	}
+
+	/**
+	 * Should be called once the whole body has been written.
+	 * @throws Error if the body ended before the closing boundary.
+	 */
+	end() {
+		if (this.state !== "done") {
+			throw new Error("Multipart body ended unexpectedly.");
+		}
+	}
+
+	/**
+	 * Consumes as much of the buffer as the current state allows.
+	 * @returns Whether the parser moved on to another state and should keep going.
+	 */
+	private step() {
+		switch (this.state) {
+			case "preamble": {
+				const index = this.buffer.indexOf(this.delimiter);
+
+				if (index === -1) {
+					// Anything before the first boundary is ignored.
+					this.buffer = this.keepTail(this.buffer);
+					return false;
+				}
+
+				this.buffer = this.buffer.subarray(
+					index + this.delimiter.length,
+				);
+				this.state = "boundary";
+				return true;
+			}
+			case "boundary": {
+				if (this.buffer.length < 2) {
+					return false;
+				}
+
+				const suffix = this.buffer.subarray(0, 2).toString();
+
+				if (suffix === "--") {
+					// The closing boundary. Anything after it is ignored.
+					this.buffer = Buffer.alloc(0);
+					this.state = "done";
+					return false;
+				}
+
+				if (suffix !== "\r\n") {
+					throw new Error("Multipart body is malformed.");
+				}
+
+				this.buffer = this.buffer.subarray(2);
+				this.state = "headers";
+				return true;
+			}
+			case "headers": {
+				const index = this.buffer.indexOf("\r\n\r\n");
+
+				if (index === -1) {
+					if (this.buffer.length > MAX_HEADER_SIZE) {
+						throw new PayloadTooLargeError(
+							"Multipart headers are too large.",
+						);
+					}
+
+					return false;
+				}
+
+				this.startPart(this.buffer.subarray(0, index).toString());
+				this.buffer = this.buffer.subarray(index + 4);
+				this.state = "body";
+				return true;
+			}
+			case "body": {
+				const index = this.buffer.indexOf(this.delimiter);
+
+				if (index === -1) {
+					const tail = this.keepTail(this.buffer);
+					this.appendToPart(
+						this.buffer.subarray(
+							0,
+							this.buffer.length - tail.length,
+						),
+					);
+					this.buffer = tail;
+					return false;
+				}
+
+				this.appendToPart(this.buffer.subarray(0, index));
+				this.finishPart();
+				this.buffer = this.buffer.subarray(
+					index + this.delimiter.length,
+				);
+				this.state = "boundary";
+				return true;
+			}
+			case "done":
+				this.buffer = Buffer.alloc(0);
+				return false;
+		}
+	}
+
+	/**
+	 * A delimiter can be split across two chunks, so we hold on to
+	 * just enough bytes to recognize it once the next chunk arrives.
+	 */
+	private keepTail(buffer: Buffer) {
+		return buffer.subarray(
+			Math.max(0, buffer.length - (this.delimiter.length - 1)),
+		);
+	}
+
+	/**
+	 * @example Content-Disposition: form-data; name="avatar"; filename="pikachu.png"
+	 */
+	private startPart(rawHeaders: string) {
+		const headers: Record<string, string> = {};
+
+		for (const line of rawHeaders.split("\r\n")) {
+			const index = line.indexOf(":");
+
+			if (index > 0) {
+				headers[line.slice(0, index).trim().toLowerCase()] = line
+					.slice(index + 1)
+					.trim();
+			}
+		}
+
+		const disposition = headers["content-disposition"] ?? "";
+		const name = disposition.match(/;\s*name="([^"]*)"/)?.[1];
+		const filename = disposition.match(/;\s*filename="([^"]*)"/)?.[1];
+
+		if (name === undefined) {
+			throw new Error("Multipart part is missing a name.");
+		}
+
+		if (
+			filename !== undefined &&
+			++this.fileCount > this.options.maxFiles
+		) {
+			throw new PayloadTooLargeError(
+				`Too many files. At most ${this.options.maxFiles} can be uploaded at once.`,
+			);
+		}
+
+		this.part = {
+			name,
+			filename,
+			contentType: headers["content-type"] ?? "text/plain",
+			chunks: [],
+			size: 0,
+		};
+	}
+
+	private appendToPart(data: Buffer) {
+		if (!this.part || data.length === 0) {
+			return;
+		}
+
+		const { name, filename } = this.part;
+		const limit =
+			filename === undefined
+				? this.options.maxFieldSize
+				: this.options.maxFileSize;
+
+		if (this.part.size + data.length > limit) {
+			throw new PayloadTooLargeError(
+				filename === undefined
+					? `Field "${name}" is larger than ${limit} bytes.`
+					: `File "${filename}" is larger than ${limit} bytes.`,
+			);
+		}
+
+		this.part.chunks.push(data);
+		this.part.size += data.length;
+	}
+
+	private finishPart() {
+		if (!this.part) {
+			return;
+		}
+
+		const { name, filename, contentType, chunks, size } = this.part;
+		const data = Buffer.concat(chunks);
+
+		this.part = undefined;
+
+		if (filename === undefined) {
+			this.fields[name] = data.toString();
+			return;
+		}
+
+		// Browsers send an empty part for file inputs that were left empty.
+		if (!filename && size === 0) {
+			return;
+		}
+
+		this.files[name] = {
+			field: name,
+			filename,
+			declaredType: contentType,
+			mimeType: sniffMimeType(data),
+			size,
+			data,
+		};
+	}
+}
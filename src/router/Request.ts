@@ -2,6 +2,12 @@ import { IncomingMessage } from "http";
 import Session from "../auth/Session";
 import SessionManager from "../auth/SessionManager";
 import Cookie from "../auth/Cookie";
+import MultipartParser, {
+	MultipartOptions,
+	UploadedFile,
+	defaultMultipartOptions,
+} from "./MultipartParser";
+import UserSettings, { UserSettingsProps } from "../models/UserSettings";
 
 /**
  * A class to represent an HTTP request and provide utility methods for parsing
@@ -9,25 +15,48 @@ import Cookie from "../auth/Cookie";
  * is used by the Router to handle incoming requests. It is also used by the
  * controllers to parse the request body and extract information from the URL.
  */
-export default class Request {
+export default class Request<
+	Params extends Record<string, string> = Record<string, string>,
+> {
 	req: IncomingMessage;
 	body: Record<string, any> = {};
+	files: Record<string, UploadedFile> = {};
 	cookies: Cookie[] = [];
-	session: Session;
+
+	/**
+	 * Sessions may live in a database, so they can't be loaded in the
+	 * constructor. The `sessionLoader` middleware calls `getSession`
+	 * before the request is routed.
+	 */
+	session!: Session;
+
+	/**
+	 * The values of the `:param` segments of the route that matched this
+	 * request. The router sets these once it has found a matching route.
+	 * @example /users/:userId/todos/:todoId + /users/1/todos/2 => { userId: "1", todoId: "2" }
+	 */
+	params = {} as Params;
 
 	constructor(req: IncomingMessage) {
 		this.req = req;
 		this.cookies = this.getCookies();
-		this.session = this.getSession();
 	}
 
 	/**
 	 * Parses the request body as JSON and sets the `props`
 	 * property to the parsed object. Rejects the promise if
-	 * the request body is not valid JSON.
+	 * the request body is not valid JSON. Multipart bodies
+	 * are handed off to `parseMultipartBody`.
+	 * @param options The limits for multipart bodies.
 	 * @returns A promise that resolves to the parsed request body.
 	 */
-	parseBody = async () => {
+	parseBody = async (options: Partial<MultipartOptions> = {}) => {
+		const contentType = this.req.headers["content-type"] ?? "";
+
+		if (contentType.includes("multipart/form-data")) {
+			return this.parseMultipartBody(contentType, options);
+		}
+
 		return new Promise((resolve, reject) => {
 			let bodyRaw = "";
 
@@ -39,7 +68,10 @@ export default class Request {
 				let body: Record<string, any>;
 
 				try {
-					if (
+					if (!bodyRaw) {
+						// Nothing was sent, e.g. a POST without any fields.
+						body = {};
+					} else if (
 						this.req.headers["content-type"]?.includes(
 							"x-www-form-urlencoded",
 						)
@@ -64,6 +96,67 @@ export default class Request {
 		});
 	};
 
+	/**
+	 * Streams a `multipart/form-data` body through a `MultipartParser`.
+	 * The text fields are set as the `body` and the files as `files`.
+	 * Rejects the promise as soon as the body goes over one of the
+	 * limits, or if it is malformed.
+	 * @param contentType The `Content-Type` header, which holds the boundary.
+	 * @param options The limits for the body. Missing ones use `defaultMultipartOptions`.
+	 * @returns A promise that resolves to the parsed text fields.
+	 * @example <form method="POST" enctype="multipart/form-data">
+	 */
+	parseMultipartBody = async (
+		contentType: string,
+		options: Partial<MultipartOptions> = {},
+	) => {
+		const boundary = MultipartParser.getBoundary(contentType);
+
+		if (!boundary) {
+			throw new Error("Multipart body is missing a boundary.");
+		}
+
+		const parser = new MultipartParser(boundary, {
+			...defaultMultipartOptions,
+			...options,
+		});
+
+		return new Promise((resolve, reject) => {
+			let failed = false;
+
+			this.req.on("data", (chunk: Buffer) => {
+				if (failed) {
+					return;
+				}
+
+				try {
+					parser.write(chunk);
+				} catch (error) {
+					// Ignore the rest of the body, there's no point parsing it.
+					failed = true;
+					reject(error);
+				}
+			});
+
+			this.req.on("end", () => {
+				if (failed) {
+					return;
+				}
+
+				try {
+					parser.end();
+				} catch (error) {
+					reject(error);
+					return;
+				}
+
+				this.body = parser.fields;
+				this.files = parser.files;
+				resolve(this.body);
+			});
+		});
+	};
+
 	/**
 	 * @returns The URL of the request as a URL object.
 	 * @see https://nodejs.org/api/url.html#url_class_url
@@ -96,19 +189,29 @@ export default class Request {
 	};
 
 	/**
-	 * @returns The ID from the request URL.
-	 * @example http://localhost:3000/todos/1 => 1
+	 * @returns The `:id` parameter of the matched route as a number.
+	 * @example /todos/:id + http://localhost:3000/todos/1 => 1
 	 */
 	getId = () => {
-		return Number(this.req.url?.split("/")[2]);
+		return Number(this.params.id);
 	};
 
 	/**
-	 * @returns The ID of the sub-todo from the request URL.
-	 * @example http://localhost:3000/todos/1/sub-todos/2 => 2
+	 * @returns The `:subTodoId` parameter of the matched route as a number.
+	 * @example /todos/:id/sub-todos/:subTodoId + http://localhost:3000/todos/1/sub-todos/2 => 2
 	 */
 	getSubTodoId = () => {
-		return Number(this.req.url?.split("/")[4]);
+		return Number(this.params.subTodoId);
+	};
+
+	/**
+	 * @returns The IP address the request came from. `X-Forwarded-For` is
+	 * ignored, since any client can send it. Behind a proxy, every request
+	 * seems to come from the proxy.
+	 * @example ::ffff:127.0.0.1
+	 */
+	getIp = () => {
+		return this.req.socket?.remoteAddress ?? "unknown";
 	};
 
 	accepts = (type: string) => {
@@ -128,10 +231,16 @@ export default class Request {
 		const cookies: Cookie[] = [];
 
 		if (cookieHeader) {
-			cookieHeader.split(";").forEach((cookie) => {
-				const [name, value] = cookie.split("=");
-				cookies.push(new Cookie(name.trim(), value.trim()));
-			});
+			for (const [name, value] of Object.entries(
+				Cookie.parseHeader(cookieHeader),
+			)) {
+				const cookie = Cookie.fromRequest(name, value);
+
+				// Cookies that were tampered with are dropped without a word.
+				if (cookie) {
+					cookies.push(cookie);
+				}
+			}
 		}
 
 		return cookies;
@@ -141,19 +250,78 @@ export default class Request {
 		return this.cookies.find((cookie) => cookie.name === name);
 	};
 
-	getSession = () => {
+	/**
+	 * Like `findCookie`, but only finds the cookie if its value was
+	 * signed or encrypted by us. Use this for cookies that were set with
+	 * either option, since the client can also send a plain value instead.
+	 */
+	findSignedCookie = (name: string) => {
+		const cookie = this.findCookie(name);
+
+		return cookie?.signed || cookie?.encrypted ? cookie : undefined;
+	};
+
+	/**
+	 * Logged in users' settings are kept in their session once they log in.
+	 * Anonymous visitors' settings are kept in the `settings` cookie.
+	 * @returns The settings of whoever made the request, or the defaults.
+	 */
+	getSettings = (): UserSettingsProps => {
+		const settings = this.session.get("settings");
+
+		if (settings) {
+			return settings;
+		}
+
+		return UserSettings.fromCookieValue(
+			this.findCookie("settings")?.value ?? "",
+		);
+	};
+
+	/**
+	 * Loads the session the request's cookie points to, or starts a new
+	 * one, and sets it as the request's `session`. Sessions that were
+	 * flagged by `SessionManager.updateUserSessions` get a new ID here,
+	 * and the sessions of logged in users are extended.
+	 */
+	getSession = async () => {
+		const sessionManager = SessionManager.getInstance();
 		const sessionId = this.findCookie("session_id")?.value;
 		let session: Session | undefined;
 
 		if (sessionId) {
-			session = SessionManager.getInstance().get(sessionId);
+			session = await sessionManager.get(sessionId);
+		}
+
+		if (session?.shouldRegenerate) {
+			session = await sessionManager.regenerate(session);
+		}
+
+		if (session?.exists("userId")) {
+			await sessionManager.touch(session);
 		}
 
 		if (!session) {
-			session = SessionManager.getInstance().createSession();
+			session = await sessionManager.createSession();
 			this.cookies.push(session.cookie);
 		}
 
+		this.session = session;
+
 		return session;
 	};
+
+	/**
+	 * Gives the request's session a new ID while keeping its data. Call
+	 * this when a user logs in or their privileges change, and send
+	 * the new session cookie back with the response.
+	 * @see SessionManager.regenerate
+	 */
+	regenerateSession = async () => {
+		this.session = await SessionManager.getInstance().regenerate(
+			this.session,
+		);
+
+		return this.session;
+	};
 }
@@ -1,7 +1,10 @@
 import { ServerResponse } from "http";
 import View from "../views/View";
 import Request from "./Request";
-import Cookie from "../auth/Cookie";
+import Cookie, { CookieOptions } from "../auth/Cookie";
+import Session from "../auth/Session";
+import SessionManager from "../auth/SessionManager";
+import { getCsrfToken } from "../auth/csrf";
 
 export enum StatusCode {
 	OK = 200,
@@ -12,6 +15,9 @@ export enum StatusCode {
 	Unauthorized = 401,
 	Forbidden = 403,
 	NotFound = 404,
+	Conflict = 409,
+	PayloadTooLarge = 413,
+	TooManyRequests = 429,
 	InternalServerError = 500,
 }
 
@@ -26,8 +32,14 @@ export interface ResponseProps {
 	payload?: any;
 	template?: string;
 	redirect?: string;
+	flash?: string;
 }
 
+/**
+ * Form fields that are never kept to fill the form back in.
+ */
+const UNPRESERVED_FIELDS = /password|^method$/i;
+
 /**
  * A class that wraps the `ServerResponse` object and provides
  * a method for sending JSON responses. This class is used by
@@ -47,15 +59,76 @@ export default class Response {
 	 * `payload` property. The `message` property is a string
 	 * that describes the response. The `payload` property is
 	 * an object that contains the data to be sent to the client.
+	 *
+	 * Browsers that are redirected never see the message, so it is
+	 * flashed to the page they're redirected to instead. Pass `flash`
+	 * to show them something other than `message`. Errors are flashed
+	 * along with the submitted form values, so the form can be filled
+	 * back in.
 	 */
 	public send = async (props: ResponseProps) => {
-		const { statusCode, message, payload, redirect, template } = props;
+		const { statusCode, message, payload, redirect, template, flash } =
+			props;
+		// The session is missing when the request failed before it was loaded.
+		// A blank one stands in for it. It is never stored, since the errors
+		// sent at that point don't redirect and so don't flash anything.
+		const session = this.req.session ?? new Session("");
+		const acceptsHTML = this.req.accepts(ContentType.HTML);
 
 		console.log(
 			`<<< ${statusCode} ${message} ${payload ? JSON.stringify(payload, null, 2) : ""}`,
 		);
 
-		if (this.req.accepts(ContentType.HTML)) {
+		if (acceptsHTML && redirect && !session.isExpired()) {
+			const isError = statusCode >= StatusCode.BadRequest;
+
+			session.flash(isError ? "error" : "success", flash ?? message);
+
+			if (isError) {
+				this.preserveFormValues(session);
+			}
+		}
+
+		// Flash messages and form values are only shown on one page.
+		const flashMessages =
+			acceptsHTML && !redirect && template ? session.pull("flash") : null;
+		const formValues =
+			acceptsHTML && !redirect && template
+				? session.pull("formValues")
+				: null;
+
+		// If a template is provided and the client accepts HTML, render the
+		// template. Every template receives who is logged in (and whether
+		// they're an admin and have verified their email), their settings and
+		// flash messages, so the header can adapt. It's rendered before the
+		// session is saved, because forms add a CSRF token to the session.
+		const html =
+			acceptsHTML && !redirect && template
+				? await View.render(template, {
+						...payload,
+						isLoggedIn: session.exists("userId"),
+						userId: session.get("userId"),
+						profile: session.get("profile"),
+						settings: this.req.getSettings(),
+						isAdmin: session.get("isAdmin") === true,
+						isVerified: session.get("isVerified") === true,
+						flash: flashMessages ?? [],
+						formValues: formValues ?? {},
+						csrfToken: () => getCsrfToken(session),
+					})
+				: null;
+
+		// Save the session before responding, so that the client's
+		// next request can't arrive before the session is stored.
+		await SessionManager.getInstance().save(session);
+
+		// Send the session cookie back so the client can identify itself on the
+		// next request. Empty sessions aren't stored, so they don't need one.
+		if (!session.isEmpty()) {
+			this.setCookie(session.cookie);
+		}
+
+		if (acceptsHTML) {
 			// If a redirect URL is provided, send a 302 status code and the redirect URL.
 			if (redirect) {
 				this.res.statusCode = StatusCode.Redirect;
@@ -64,11 +137,10 @@ export default class Response {
 				return;
 			}
 
-			// If a template is provided and the client accepts HTML, render the template.
-			if (template) {
+			if (html !== null) {
 				this.res.statusCode = statusCode;
 				this.res.setHeader("Content-Type", ContentType.HTML);
-				this.res.end(await View.render(template, payload));
+				this.res.end(html);
 				return;
 			}
 		}
@@ -84,13 +156,42 @@ export default class Response {
 	 * Every time this method is called, the `Set-Cookie` header
 	 * is updated with the new cookie (and all cookies that were
 	 * added before it, if any), and the new cookie is added to the
-	 * `cookies` array.
+	 * `cookies` array. A cookie with the same name replaces the
+	 * one that was set before it.
 	 */
 	public setCookie(cookie: Cookie) {
+		this.cookies = this.cookies.filter(({ name }) => name !== cookie.name);
 		this.cookies.push(cookie);
 		this.res.setHeader("Set-Cookie", this.stringifyCookies());
 	}
 
+	/**
+	 * Keeps what was submitted in the session, except for passwords,
+	 * so that the form can be filled back in after the redirect.
+	 */
+	private preserveFormValues(session: Session) {
+		const formValues = Object.fromEntries(
+			Object.entries(this.req.body).filter(
+				([name, value]) =>
+					!UNPRESERVED_FIELDS.test(name) && typeof value !== "object",
+			),
+		);
+
+		if (Object.keys(formValues).length > 0) {
+			session.set("formValues", formValues);
+		}
+	}
+
+	/**
+	 * Tells the client to delete a cookie by setting it again with an
+	 * expiry in the past. The domain and path have to match the ones
+	 * the cookie was set with, or the browser keeps the cookie.
+	 * @example res.clearCookie("remember_token")
+	 */
+	public clearCookie(name: string, options: CookieOptions = {}) {
+		this.setCookie(new Cookie(name, "", 0, { ...options, maxAge: 0 }));
+	}
+
 	/**
 	 * Converts the `cookies` array to a string that can be used
 	 * in the `Set-Cookie` header. This method is called every time
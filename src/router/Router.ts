@@ -1,23 +1,83 @@
 import Request from "./Request";
-import Response from "./Response";
+import Response, { StatusCode } from "./Response";
 
-interface RouteHandler {
-	(req: Request, res: Response): void;
+/**
+ * The named parameters of a route pattern, derived from its `:param` segments.
+ * @example RouteParams<"/users/:userId/todos/:todoId"> => { userId: string; todoId: string }
+ * @see https://www.typescriptlang.org/docs/handbook/2/template-literal-types.html
+ */
+export type RouteParams<Path extends string> =
+	Path extends `${string}:${infer Param}/${infer Rest}`
+		? { [Key in Param]: string } & RouteParams<`/${Rest}`>
+		: Path extends `${string}:${infer Param}`
+			? { [Key in Param]: string }
+			: {};
+
+interface RouteHandler<Params extends Record<string, string> = any> {
+	(req: Request<Params>, res: Response): void;
+}
+
+/**
+ * Calls the next middleware in the chain, or the route handler
+ * if there are no middlewares left. Resolves once everything
+ * after the current middleware has finished.
+ */
+export interface NextFunction {
+	(): Promise<void>;
+}
+
+/**
+ * A function that runs before the route handler. It can act on the
+ * request and response, end the request by sending a response, or
+ * pass control along by calling `next`. Anything after `await next()`
+ * runs once the rest of the chain has finished.
+ * @example const logger: Middleware = async (req, res, next) => { console.log(req.req.url); await next(); };
+ */
+export interface Middleware<Params extends Record<string, string> = any> {
+	(
+		req: Request<Params>,
+		res: Response,
+		next: NextFunction,
+	): void | Promise<void>;
+}
+
+/**
+ * Any number of middlewares followed by the route handler.
+ * @example router.get("/todos", requireAuth, this.getTodoList);
+ */
+type RouteHandlers<Params extends Record<string, string>> = [
+	...Middleware<Params>[],
+	RouteHandler<Params>,
+];
+
+interface Route {
+	handler: RouteHandler;
+	middlewares: Middleware[];
 }
 
 interface Routes {
 	[method: string]: {
-		[path: string]: RouteHandler;
+		[path: string]: Route;
 	};
 }
 
+/**
+ * The route that matched a request, along with the values
+ * of the `:param` segments captured from the path.
+ */
+export interface RouteMatch extends Route {
+	params: Record<string, string>;
+}
+
 /**
  * A class that represents a simple router. It is used to register
  * routes and find the appropriate handler for a given request.
- * @template T The type of the request body.
+ * Requests pass through the global middlewares, then through the
+ * middlewares of the matching route, and finally reach the handler.
  */
 export default class Router {
 	routes: Routes;
+	middlewares: Middleware[] = [];
 
 	constructor(routes?: Routes) {
 		this.routes = routes || {
@@ -28,26 +88,102 @@ export default class Router {
 		};
 	}
 
+	/**
+	 * Adds middlewares that run for every request, in the order they
+	 * were added, before the route is even looked up.
+	 * @param middlewares The middlewares to add to the end of the chain.
+	 */
+	use(...middlewares: Middleware[]) {
+		this.middlewares.push(...middlewares);
+	}
+
+	/**
+	 * Sends a request through the global middlewares and then to the
+	 * route that matches it. Since the route is looked up last, global
+	 * middlewares can still change which route matches, for example by
+	 * parsing the body that holds the method of an HTML form.
+	 * @param req The request object.
+	 * @param res The response object.
+	 */
+	handle = async (req: Request, res: Response) => {
+		await this.runChain([...this.middlewares, this.dispatch], req, res);
+	};
+
+	/**
+	 * The last global middleware: finds the matching route and sends the
+	 * request through the route's own middlewares and then its handler.
+	 * If there is no matching route, a 404 Not Found response is sent.
+	 */
+	private dispatch: Middleware = async (req, res) => {
+		const url = req.req.url ?? "";
+		const route = this.findMatchingRoute(req.getMethod(), url);
+
+		if (!route) {
+			await res.send({
+				statusCode: StatusCode.NotFound,
+				message: `Invalid route: ${req.getMethod()} ${url}`,
+			});
+			return;
+		}
+
+		// Make the parameters captured from the path available to the handler.
+		req.params = route.params;
+
+		await this.runChain(
+			[...route.middlewares, (req, res) => route.handler(req, res)],
+			req,
+			res,
+		);
+	};
+
+	/**
+	 * Calls the first middleware of the chain and gives it a `next`
+	 * function that calls the one after it, and so on.
+	 * @throws Error if a middleware calls `next` more than once.
+	 */
+	private runChain = async (
+		chain: Middleware[],
+		req: Request,
+		res: Response,
+	) => {
+		let lastIndex = -1;
+
+		const callMiddleware = async (index: number): Promise<void> => {
+			if (index <= lastIndex) {
+				throw new Error("next() was called more than once.");
+			}
+
+			lastIndex = index;
+
+			await chain[index]?.(req, res, () => callMiddleware(index + 1));
+		};
+
+		await callMiddleware(0);
+	};
+
 	/**
 	 * Given an HTTP method and a path, this method returns the
-	 * handler that matches the method and path. If no matching
+	 * handler that matches the method and path along with the
+	 * parameters captured from the path. If no matching
 	 * handler is found, it returns `undefined`.
 	 * @param method The HTTP method of the request.
 	 * @param path The path of the request.
-	 * @returns The matching handler or `undefined` if no match is found.
+	 * @returns The matching route or `undefined` if no match is found.
 	 */
-	findMatchingHandler = (
+	findMatchingRoute = (
 		method: string,
 		path: string,
-	): RouteHandler | undefined => {
+	): RouteMatch | undefined => {
 		const methodRoutes = this.routes[method]; // Get routes for the HTTP method.
 
 		if (!methodRoutes) return undefined; // Not a supported method.
 
 		// Iterate through defined routes of the current method.
 		for (const routePattern in methodRoutes) {
-			if (this.doesPathMatchPattern(path, routePattern)) {
-				return methodRoutes[routePattern]; // Found a match!
+			const params = this.matchPattern(path, routePattern);
+
+			if (params) {
+				return { ...methodRoutes[routePattern], params }; // Found a match!
 			}
 		}
 
@@ -55,36 +191,56 @@ export default class Router {
 	};
 
 	/**
-	 * Checks if a given path matches a given route pattern.
+	 * Checks if a given path matches a given route pattern and, if it
+	 * does, captures the value of every dynamic segment under its name.
 	 * @param path The path to check from the request.
 	 * @param routePattern The route pattern to match against.
-	 * @returns Whether the path matches the pattern.
-	 * @example doesPathMatchPattern("/todos/1", "/todos/:id") => true
-	 * @example doesPathMatchPattern("/todos/1", "/todos") => false
+	 * @returns The captured parameters, or `null` if the path doesn't match.
+	 * @example matchPattern("/todos/1", "/todos/:id") => { id: "1" }
+	 * @example matchPattern("/todos/1", "/todos") => null
 	 */
-	private doesPathMatchPattern = (
+	private matchPattern = (
 		path: string,
 		routePattern: string,
-	): boolean => {
+	): Record<string, string> | null => {
 		const pathSegments = this.removeQueryString(path).split("/");
 		const patternSegments = routePattern.split("/");
+		const params: Record<string, string> = {};
 
 		// Basic check: Do they even have the same number of segments?
-		if (pathSegments.length !== patternSegments.length) return false;
+		if (pathSegments.length !== patternSegments.length) return null;
 
 		// Segment-by-segment comparison. We'll check each segment of the path
 		// against the corresponding segment of the pattern. If we find a mismatch,
-		// we'll return false. If we make it through the entire path and pattern
-		// without finding a mismatch, we'll return true.
+		// we'll return null. If we make it through the entire path and pattern
+		// without finding a mismatch, we'll return the captured parameters.
 		for (let i = 0; i < pathSegments.length; i++) {
-			// Dynamic segment (starts with ':' in your pattern).
-			if (patternSegments[i].startsWith(":")) continue; // These always match.
+			// Dynamic segment (starts with ':' in your pattern). These always match.
+			if (patternSegments[i].startsWith(":")) {
+				params[patternSegments[i].slice(1)] = this.decodeSegment(
+					pathSegments[i],
+				);
+				continue;
+			}
 
 			// If not an exact match, it's no good.
-			if (patternSegments[i] !== pathSegments[i]) return false;
+			if (patternSegments[i] !== pathSegments[i]) return null;
 		}
 
-		return true; // We've successfully matched all segments!
+		return params; // We've successfully matched all segments!
+	};
+
+	/**
+	 * Decodes percent-encoded characters in a path segment. A malformed
+	 * segment is kept as it is rather than failing the whole request.
+	 * @example decodeSegment("hello%20world") => "hello world"
+	 */
+	private decodeSegment = (segment: string): string => {
+		try {
+			return decodeURIComponent(segment);
+		} catch {
+			return segment;
+		}
 	};
 
 	/**
@@ -98,19 +254,42 @@ export default class Router {
 		return parts[0];
 	};
 
-	get(path: string, handler: RouteHandler) {
-		this.routes.GET[path] = handler;
+	get<Path extends string>(
+		path: Path,
+		...handlers: RouteHandlers<RouteParams<Path>>
+	) {
+		this.routes.GET[path] = this.createRoute(handlers);
 	}
 
-	post(path: string, handler: RouteHandler) {
-		this.routes.POST[path] = handler;
+	post<Path extends string>(
+		path: Path,
+		...handlers: RouteHandlers<RouteParams<Path>>
+	) {
+		this.routes.POST[path] = this.createRoute(handlers);
 	}
 
-	put(path: string, handler: RouteHandler) {
-		this.routes.PUT[path] = handler;
+	put<Path extends string>(
+		path: Path,
+		...handlers: RouteHandlers<RouteParams<Path>>
+	) {
+		this.routes.PUT[path] = this.createRoute(handlers);
 	}
 
-	delete(path: string, handler: RouteHandler) {
-		this.routes.DELETE[path] = handler;
+	delete<Path extends string>(
+		path: Path,
+		...handlers: RouteHandlers<RouteParams<Path>>
+	) {
+		this.routes.DELETE[path] = this.createRoute(handlers);
 	}
+
+	/**
+	 * Splits what was passed when registering a route into the
+	 * route's middlewares and its handler, which always comes last.
+	 */
+	private createRoute = (handlers: RouteHandlers<any>): Route => {
+		return {
+			handler: handlers[handlers.length - 1] as RouteHandler,
+			middlewares: handlers.slice(0, -1) as Middleware[],
+		};
+	};
 }
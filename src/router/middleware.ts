@@ -0,0 +1,72 @@
+import { Middleware } from "./Router";
+import { StatusCode } from "./Response";
+import { PayloadTooLargeError } from "./MultipartParser";
+
+/**
+ * Catches any error thrown further down the chain and sends a
+ * 500 Internal Server Error instead of letting the request hang.
+ * It should be the first middleware so that it wraps all the others.
+ */
+export const errorHandler: Middleware = async (req, res, next) => {
+	try {
+		await next();
+	} catch (error) {
+		const message = `Error while handling request: ${error}`;
+		console.error(message);
+
+		// If the handler already started responding, there's nothing left to send.
+		if (res.res.headersSent) {
+			res.res.end();
+			return;
+		}
+
+		await res.send({
+			statusCode: StatusCode.InternalServerError,
+			message,
+		});
+	}
+};
+
+/**
+ * Logs every incoming request. The outgoing response is logged by `Response.send`.
+ * @example >>> GET /todos
+ */
+export const logger: Middleware = async (req, res, next) => {
+	console.log(`>>> ${req.req.method} ${req.req.url}`);
+	await next();
+};
+
+/**
+ * Loads the request's session, which every middleware and route after
+ * it can use. Loading goes to the session store, which can fail like any
+ * database call, so it has to run after `errorHandler`.
+ */
+export const sessionLoader: Middleware = async (req, res, next) => {
+	await req.getSession();
+	await next();
+};
+
+/**
+ * Parses the request body and extracts the incoming data.
+ * This is only done for POST and PUT requests because they
+ * normally send data in their body whereas GET and DELETE requests do not.
+ * Uploads that go over the multipart limits get a 413.
+ */
+export const bodyParser: Middleware = async (req, res, next) => {
+	if (req.req.method === "POST" || req.req.method === "PUT") {
+		try {
+			await req.parseBody();
+		} catch (error) {
+			await res.send({
+				statusCode:
+					error instanceof PayloadTooLargeError
+						? StatusCode.PayloadTooLarge
+						: StatusCode.BadRequest,
+				message: error instanceof Error ? error.message : `${error}`,
+			});
+			return;
+		}
+	}
+
+	await next();
+};
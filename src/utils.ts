@@ -75,15 +75,19 @@ export const createUTCDate = (date?: Date): Date => {
 
 /**
  * @param utcDate The date to format.
+ * @param options How to format the date, including the time zone to show it in.
+ * @param locale The locale whose conventions to format the date with.
  * @returns The date in a human-readable format.
  * @example 2024-03-21T04:01:00.000Z => Thursday, March 21, 2024
+ * @example 2024-03-21T04:01:00.000Z + "fr-CA" => jeudi 21 mars 2024
  */
 export const formatDateToLocal = (
 	utcDate: Date,
 	options?: Intl.DateTimeFormatOptions,
+	locale = "en-US",
 ) => {
 	return new Intl.DateTimeFormat(
-		"en-US",
+		locale,
 		options ?? {
 			dateStyle: "full",
 		},
@@ -92,9 +96,17 @@ export const formatDateToLocal = (
 
 /**
  * @param utcDate The date to format.
+ * @param timeZone The time zone the date falls on, which defaults to UTC.
  * @returns The date in ISO format.
  * @example 2024-03-21T04:01:00.000Z => 2024-03-21
+ * @example 2024-03-21T04:01:00.000Z + "America/Toronto" => 2024-03-21
  */
-export const formatDateToISO = (utcDate: Date) => {
-	return utcDate.toISOString().slice(0, 10);
+export const formatDateToISO = (utcDate: Date, timeZone = "UTC") => {
+	// The Canadian English locale happens to format dates as YYYY-MM-DD.
+	return new Intl.DateTimeFormat("en-CA", {
+		timeZone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+	}).format(utcDate);
 };
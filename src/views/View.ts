@@ -2,7 +2,8 @@ import handlebars from "handlebars";
 import { getImagesPath, getPath, getStylesPath } from "../url";
 import fs from "fs/promises";
 import { glob } from "glob";
-import { formatDateToISO } from "../utils";
+import { formatDateToISO, formatDateToLocal } from "../utils";
+import { CSRF_FIELD } from "../auth/csrf";
 
 interface TemplateData {
 	[key: string]: any;
@@ -44,10 +45,53 @@ export default class View {
 			getImagesPath(relativePath),
 		);
 
-		// Register a Handlebars helper for formatting the date
-		handlebars.registerHelper("formatDate", function (date) {
-			return formatDateToISO(date); // Format as 'YYYY-MM-DD'
-		});
+		// Register a Handlebars helper for formatting the date in the visitor's time zone.
+		handlebars.registerHelper(
+			"formatDate",
+			function (date, options: handlebars.HelperOptions) {
+				if (!date) {
+					return "";
+				}
+
+				const { timezone } = options.data.root.settings ?? {};
+				return formatDateToISO(date, timezone); // Format as 'YYYY-MM-DD'
+			},
+		);
+
+		// Register a Handlebars helper for showing the date and time in the visitor's time zone and locale.
+		handlebars.registerHelper(
+			"formatDateTime",
+			function (date, options: handlebars.HelperOptions) {
+				if (!date) {
+					return "";
+				}
+
+				const { timezone, locale } = options.data.root.settings ?? {};
+				return formatDateToLocal(
+					date,
+					{
+						dateStyle: "full",
+						timeStyle: "short",
+						timeZone: timezone,
+					},
+					locale,
+				);
+			},
+		);
+
+		// Register a Handlebars helper for the hidden CSRF token field that every POST form needs.
+		handlebars.registerHelper(
+			"csrf",
+			function (options: handlebars.HelperOptions) {
+				const { csrfToken } = options.data.root;
+				const token =
+					typeof csrfToken === "function" ? csrfToken() : csrfToken;
+
+				return new handlebars.SafeString(
+					`<input type="hidden" name="${CSRF_FIELD}" value="${handlebars.escapeExpression(token ?? "")}">`,
+				);
+			},
+		);
 	}
 
 	/**
@@ -1,9 +1,10 @@
-import http, { IncomingMessage } from "http";
+import http, { IncomingHttpHeaders, IncomingMessage } from "http";
 
 export interface HttpResponse {
 	statusCode: number | undefined;
 	body: any;
 	cookies?: Record<string, string>;
+	headers?: IncomingHttpHeaders;
 }
 
 let cookieJar: Record<string, string> = {};
@@ -14,6 +15,10 @@ export const makeHttpRequest = async (
 	data = {},
 	accept = "application/json",
 ): Promise<HttpResponse> => {
+	// State-changing requests have to send the session's CSRF token.
+	const csrfToken = ["GET", "HEAD", "OPTIONS"].includes(method)
+		? undefined
+		: await getCsrfToken();
 	const options = {
 		host: "localhost",
 		port: 3000,
@@ -24,6 +29,7 @@ export const makeHttpRequest = async (
 			Accept: accept,
 			"Content-Length": Buffer.byteLength(JSON.stringify(data)),
 			Cookie: getCookieJar(),
+			...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
 		},
 	};
 
@@ -38,6 +44,7 @@ export const makeHttpRequest = async (
 					statusCode: response.statusCode,
 					body: JSON.parse(body),
 					cookies: setCookieJar(response),
+					headers: response.headers,
 				}),
 			);
 			// setCookieJar(response);
@@ -49,23 +56,29 @@ export const makeHttpRequest = async (
 	});
 };
 
+const getCsrfToken = async (): Promise<string> => {
+	const { body } = await makeHttpRequest("GET", "/csrf-token");
+	return body.payload.csrfToken;
+};
+
 const getCookie = (name: string) => {
 	return cookieJar[name] ?? null;
 };
 
 const getCookieJar = () => {
-	return JSON.stringify(cookieJar)
-		.slice(1, -1)
-		.replace(/,/g, "; ")
-		.replace(/:/g, "=")
-		.replace(/["]/g, "");
+	return Object.entries(cookieJar)
+		.map(([name, value]) => `${name}=${value}`)
+		.join("; ");
 };
 
 const setCookieJar = (response: IncomingMessage) => {
 	cookieJar = response.headers["set-cookie"]
 		? response.headers["set-cookie"].reduce((accumulator, cookie) => {
-				const [key, value] = cookie.split("=");
-				[accumulator[key]] = value.split(";");
+				const [pair] = cookie.split(";");
+				const separator = pair.indexOf("=");
+				accumulator[pair.slice(0, separator)] = pair.slice(
+					separator + 1,
+				);
 				return accumulator;
 			}, cookieJar)
 		: cookieJar;
@@ -0,0 +1,63 @@
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "http";
+import Request from "../src/router/Request";
+import Response from "../src/router/Response";
+
+export interface ContextOptions {
+	method?: string;
+	url?: string;
+	headers?: IncomingHttpHeaders;
+	body?: Record<string, any>;
+	/**
+	 * Whether to load the session right away. Pass `false` to leave it
+	 * to the `sessionLoader` middleware.
+	 */
+	session?: boolean;
+}
+
+/**
+ * What the response would have sent to the client.
+ */
+export interface SentResponse {
+	statusCode?: number;
+	body?: string;
+	headers: Record<string, any>;
+}
+
+/**
+ * Creates a request and response that never touch the network, with
+ * the request's session already loaded unless asked otherwise. The
+ * response records what would have been sent to the client.
+ */
+export const createContext = async ({
+	method = "GET",
+	url = "/",
+	headers = {},
+	body = {},
+	session = true,
+}: ContextOptions = {}) => {
+	const request = new Request({
+		method,
+		url,
+		headers,
+	} as IncomingMessage);
+	const sent: SentResponse = { headers: {} };
+	const response = new Response(request, {
+		setHeader: (name: string, value: any) => {
+			sent.headers[name] = value;
+		},
+		end: (body?: string) => {
+			sent.body = body;
+		},
+		set statusCode(statusCode: number) {
+			sent.statusCode = statusCode;
+		},
+	} as unknown as ServerResponse);
+
+	if (session) {
+		await request.getSession();
+	}
+
+	request.body = body;
+
+	return { request, response, sent };
+};
@@ -0,0 +1,191 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { test, describe, expect, afterEach } from "vitest";
+import Cookie from "../src/auth/Cookie";
+import Request from "../src/router/Request";
+import Response from "../src/router/Response";
+import { getSecrets, setSecrets } from "../src/auth/secrets";
+import { sign, unsign } from "../src/auth/signature";
+import { encrypt, decrypt } from "../src/auth/encryption";
+
+describe("Cookies", () => {
+	const secrets = getSecrets();
+
+	/**
+	 * Creates a request that sends the given `Cookie` header.
+	 */
+	const createRequest = (cookie: string) => {
+		return new Request({
+			method: "GET",
+			url: "/",
+			headers: { cookie },
+		} as IncomingMessage);
+	};
+
+	/**
+	 * @returns The name and value part of the cookie, as the browser would send it back.
+	 */
+	const toHeader = (cookie: Cookie) => {
+		return cookie.toString().split(";")[0];
+	};
+
+	afterEach(() => {
+		setSecrets(secrets);
+	});
+
+	test("Value was signed and unsigned.", () => {
+		const signed = sign("abc");
+
+		expect(signed.startsWith("abc.")).toBe(true);
+		expect(unsign(signed)).toBe("abc");
+		expect(unsign(`abd${signed.slice(3)}`)).toBeNull();
+		expect(unsign(`${signed}x`)).toBeNull();
+		expect(unsign("abc")).toBeNull();
+	});
+
+	test("Value was encrypted and decrypted.", () => {
+		const encrypted = encrypt("user@email.com");
+
+		expect(encrypted).not.toContain("user@email.com");
+		expect(encrypted).not.toBe(encrypt("user@email.com"));
+		expect(decrypt(encrypted)).toBe("user@email.com");
+
+		const tampered = Buffer.from(encrypted, "base64url");
+		tampered[tampered.length - 1] ^= 1;
+
+		expect(decrypt(tampered.toString("base64url"))).toBeNull();
+		expect(decrypt("short")).toBeNull();
+	});
+
+	test("Old keys still verified after the key was rotated.", () => {
+		setSecrets(["old-secret"]);
+
+		const signed = sign("abc");
+		const encrypted = encrypt("abc");
+
+		setSecrets(["new-secret", "old-secret"]);
+
+		expect(unsign(signed)).toBe("abc");
+		expect(decrypt(encrypted)).toBe("abc");
+		expect(sign("abc")).not.toBe(signed);
+
+		setSecrets(["new-secret"]);
+
+		expect(unsign(signed)).toBeNull();
+		expect(decrypt(encrypted)).toBeNull();
+	});
+
+	test("Signed and encrypted cookies were read from the request.", () => {
+		const signed = new Cookie("token", "abc", undefined, {
+			signed: true,
+		});
+		const encrypted = new Cookie("email", "user@email.com", undefined, {
+			encrypted: true,
+		});
+
+		expect(toHeader(signed)).toMatch(/^token=s:abc\./);
+		expect(toHeader(encrypted)).not.toContain("user@email.com");
+
+		const request = createRequest(
+			`${toHeader(signed)}; ${toHeader(encrypted)}; plain=123`,
+		);
+
+		expect(request.findSignedCookie("token")?.value).toBe("abc");
+		expect(request.findSignedCookie("email")?.value).toBe("user@email.com");
+		expect(request.findCookie("plain")?.value).toBe("123");
+		expect(request.findSignedCookie("plain")).toBeUndefined();
+	});
+
+	test("Tampered cookies were dropped.", () => {
+		const signed = toHeader(
+			new Cookie("token", "abc", undefined, { signed: true }),
+		);
+		const encrypted = toHeader(
+			new Cookie("email", "user@email.com", undefined, {
+				encrypted: true,
+			}),
+		);
+
+		const request = createRequest(
+			`${signed.replace("abc", "abd")}; ${encrypted.slice(0, -2)}; plain=123`,
+		);
+
+		expect(request.findCookie("token")).toBeUndefined();
+		expect(request.findCookie("email")).toBeUndefined();
+		expect(request.findCookie("plain")?.value).toBe("123");
+	});
+
+	test("Cookie attributes were set.", () => {
+		const cookie = new Cookie("theme", "dark", undefined, {
+			maxAge: 60,
+			domain: "example.com",
+			path: "/todos",
+			httpOnly: false,
+			sameSite: "Lax",
+		});
+
+		expect(cookie.toString()).toBe(
+			`theme=dark; Domain=example.com; Path=/todos; Expires=${cookie.expires.toUTCString()}; Max-Age=60; SameSite=Lax`,
+		);
+		expect(new Cookie("id", "1").toString()).toMatch(
+			/^id=1; Path=\/; Expires=.+; HttpOnly; SameSite=Strict$/,
+		);
+	});
+
+	test("Cookies that browsers require to be secure were secure.", () => {
+		expect(
+			new Cookie("a", "1", undefined, { sameSite: "None" }).secure,
+		).toBe(true);
+		expect(
+			new Cookie("a", "1", undefined, { partitioned: true }).toString(),
+		).toMatch(/; Secure; HttpOnly; SameSite=Strict; Partitioned$/);
+		expect(new Cookie("__Secure-a", "1").secure).toBe(true);
+		expect(new Cookie("__Host-a", "1").secure).toBe(true);
+		expect(
+			() =>
+				new Cookie("__Host-a", "1", undefined, {
+					domain: "example.com",
+				}),
+		).toThrow();
+		expect(
+			() => new Cookie("__Host-a", "1", undefined, { path: "/todos" }),
+		).toThrow();
+	});
+
+	test("Cookie values were URL encoded and decoded.", () => {
+		const cookie = new Cookie("name", "a b;c=d%é");
+		const request = createRequest(toHeader(cookie));
+
+		expect(toHeader(cookie)).toBe("name=a%20b%3Bc=d%25%C3%A9");
+		expect(request.findCookie("name")?.value).toBe("a b;c=d%é");
+	});
+
+	test("Cookie header was parsed.", () => {
+		expect(
+			Cookie.parseHeader(
+				'a=1; b="quoted"; c=x=y; malformed; =nameless; d=%E0%A4%A; a=2; e=',
+			),
+		).toEqual({
+			a: "1",
+			b: "quoted",
+			c: "x=y",
+			d: "%E0%A4%A",
+			e: "",
+		});
+	});
+
+	test("Cookie was cleared.", () => {
+		let header: string[] = [];
+		const response = new Response(createRequest(""), {
+			setHeader: (name: string, value: string[]) => {
+				header = value;
+			},
+		} as unknown as ServerResponse);
+
+		response.clearCookie("theme", { path: "/todos" });
+
+		expect(header).toHaveLength(1);
+		expect(header[0]).toMatch(
+			/^theme=; Path=\/todos; Expires=.+; Max-Age=0;/,
+		);
+	});
+});
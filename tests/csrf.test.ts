@@ -0,0 +1,201 @@
+import { IncomingHttpHeaders } from "http";
+import { test, describe, expect, afterAll, beforeEach } from "vitest";
+import { StatusCode } from "../src/router/Response";
+import SessionManager from "../src/auth/SessionManager";
+import MemorySessionStore from "../src/auth/MemorySessionStore";
+import { getCsrfToken, verifyCsrfToken } from "../src/auth/csrf";
+import { createContext } from "./context";
+
+describe("CSRF protection", () => {
+	const sessionManager = SessionManager.getInstance();
+
+	/**
+	 * Creates a request from a browser on this host.
+	 */
+	const createBrowserContext = (
+		method: string,
+		body: Record<string, any> = {},
+		headers: IncomingHttpHeaders = {},
+	) => {
+		return createContext({
+			method,
+			url: "/todos",
+			headers: {
+				accept: "text/html",
+				host: "localhost:3000",
+				...headers,
+			},
+			body,
+		});
+	};
+
+	/**
+	 * @returns Whether the middleware let the request through.
+	 */
+	const verify = async ({
+		request,
+		response,
+	}: Awaited<ReturnType<typeof createContext>>) => {
+		let passed = false;
+
+		await verifyCsrfToken(request, response, async () => {
+			passed = true;
+		});
+
+		return passed;
+	};
+
+	beforeEach(() => {
+		sessionManager.setStore(new MemorySessionStore());
+	});
+
+	afterAll(() => {
+		sessionManager.stopCleanUp();
+	});
+
+	test("Token was created once per session.", async () => {
+		const { request } = await createBrowserContext("GET");
+		const token = getCsrfToken(request.session);
+
+		expect(token).toMatch(/^[\w-]{43}$/);
+		expect(getCsrfToken(request.session)).toBe(token);
+	});
+
+	test("Safe requests were let through without a token.", async () => {
+		expect(await verify(await createBrowserContext("GET"))).toBe(true);
+		expect(await verify(await createBrowserContext("HEAD"))).toBe(true);
+	});
+
+	test("Form without a token was rejected.", async () => {
+		const context = await createBrowserContext("POST", {
+			title: "Pikachu",
+		});
+
+		expect(await verify(context)).toBe(false);
+		expect(context.sent.statusCode).toBe(StatusCode.Forbidden);
+	});
+
+	test("Form with the session's token was let through.", async () => {
+		const context = await createBrowserContext("POST", {
+			title: "Pikachu",
+		});
+		const token = getCsrfToken(context.request.session);
+
+		context.request.body._csrf = token;
+
+		expect(await verify(context)).toBe(true);
+		expect(context.request.body).toEqual({ title: "Pikachu" });
+	});
+
+	test("Form with another session's token was rejected.", async () => {
+		const other = await createBrowserContext("GET");
+		const context = await createBrowserContext("POST", {
+			_csrf: getCsrfToken(other.request.session),
+		});
+
+		getCsrfToken(context.request.session);
+
+		expect(await verify(context)).toBe(false);
+	});
+
+	test("Method override was checked like the method it asks for.", async () => {
+		const context = await createBrowserContext("GET", { method: "DELETE" });
+
+		expect(await verify(context)).toBe(false);
+	});
+
+	test("Token was accepted in the header.", async () => {
+		const context = await createBrowserContext("DELETE");
+
+		context.request.req.headers["x-csrf-token"] = getCsrfToken(
+			context.request.session,
+		);
+
+		expect(await verify(context)).toBe(true);
+	});
+
+	test("Request from another origin was rejected even with a valid token.", async () => {
+		for (const headers of [
+			{ origin: "https://evil.example" },
+			{ referer: "https://evil.example/todos" },
+			{ origin: "null" },
+		]) {
+			const context = await createBrowserContext("POST", {}, headers);
+
+			context.request.body._csrf = getCsrfToken(context.request.session);
+
+			expect(await verify(context)).toBe(false);
+			expect(context.sent.statusCode).toBe(StatusCode.Forbidden);
+		}
+
+		const context = await createBrowserContext(
+			"POST",
+			{},
+			{ origin: "http://localhost:3000" },
+		);
+
+		context.request.body._csrf = getCsrfToken(context.request.session);
+
+		expect(await verify(context)).toBe(true);
+	});
+
+	test("Bearer token client was exempt.", async () => {
+		const context = await createBrowserContext(
+			"POST",
+			{},
+			{ authorization: "Bearer abc123", accept: "application/json" },
+		);
+
+		expect(await verify(context)).toBe(true);
+	});
+
+	test("Bearer token client with a session cookie was not exempt.", async () => {
+		const context = await createBrowserContext(
+			"POST",
+			{},
+			{
+				authorization: "Bearer abc123",
+				accept: "application/json",
+				cookie: "session_id=abc123",
+			},
+		);
+
+		expect(await verify(context)).toBe(false);
+		expect(context.sent.statusCode).toBe(StatusCode.Forbidden);
+	});
+
+	test("Rendered form carried the token and the session was saved.", async () => {
+		const { request, response, sent } = await createBrowserContext("GET");
+
+		await response.send({
+			statusCode: StatusCode.OK,
+			message: "New todo form",
+			template: "NewFormView",
+			payload: { title: "Create Todo" },
+		});
+
+		const token = request.session.get("csrfToken");
+
+		expect(sent.body).toContain(
+			`<input type="hidden" name="_csrf" value="${token}">`,
+		);
+		expect(await sessionManager.get(request.session.id)).toBe(
+			request.session,
+		);
+		expect(sent.headers["Set-Cookie"]).toHaveLength(1);
+	});
+
+	test("Page without a form didn't create a session.", async () => {
+		const { request, response, sent } = await createBrowserContext("GET");
+
+		await response.send({
+			statusCode: StatusCode.OK,
+			message: "Homepage",
+			template: "HomeView",
+			payload: { title: "Home" },
+		});
+
+		expect(request.session.isEmpty()).toBe(true);
+		expect(sent.headers["Set-Cookie"]).toBeUndefined();
+	});
+});
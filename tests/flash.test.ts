@@ -0,0 +1,119 @@
+import { test, describe, expect, afterAll, beforeEach } from "vitest";
+import { StatusCode } from "../src/router/Response";
+import SessionManager from "../src/auth/SessionManager";
+import MemorySessionStore from "../src/auth/MemorySessionStore";
+import { createContext } from "./context";
+
+describe("Flash messages", () => {
+	const sessionManager = SessionManager.getInstance();
+
+	/**
+	 * Creates a request from a browser. The session cookie is sent along if given.
+	 */
+	const createBrowserContext = (sessionId?: string) => {
+		return createContext({
+			headers: {
+				accept: "text/html",
+				...(sessionId ? { cookie: `session_id=${sessionId}` } : {}),
+			},
+		});
+	};
+
+	beforeEach(() => {
+		sessionManager.setStore(new MemorySessionStore());
+	});
+
+	afterAll(() => {
+		sessionManager.stopCleanUp();
+	});
+
+	test("Flash message was pulled only once.", async () => {
+		const { request } = await createBrowserContext();
+
+		request.session.flash("info", "Hello!");
+
+		expect(request.session.pull("flash")).toEqual([
+			{ type: "info", message: "Hello!" },
+		]);
+		expect(request.session.pull("flash")).toBeNull();
+		expect(request.session.isEmpty()).toBe(true);
+	});
+
+	test("Error and form values were carried across a redirect.", async () => {
+		const { request, response, sent } = await createBrowserContext();
+
+		request.body = {
+			title: "",
+			description: "Catch them all",
+			password: "secret",
+			method: "POST",
+		};
+
+		await response.send({
+			statusCode: StatusCode.BadRequest,
+			message: "Request body must include title.",
+			redirect: "/todos/new",
+		});
+
+		expect(sent.statusCode).toBe(StatusCode.Redirect);
+
+		const next = await createBrowserContext(request.session.id);
+
+		await next.response.send({
+			statusCode: StatusCode.OK,
+			message: "New todo form",
+			template: "NewFormView",
+			payload: { title: "Create Todo" },
+		});
+
+		expect(next.sent.body).toContain(
+			'<p id="error" class="flash error">Request body must include title.</p>',
+		);
+		expect(next.sent.body).toContain("Catch them all</textarea>");
+		expect(next.sent.body).not.toContain("secret");
+
+		const last = await createBrowserContext(request.session.id);
+
+		await last.response.send({
+			statusCode: StatusCode.OK,
+			message: "New todo form",
+			template: "NewFormView",
+			payload: { title: "Create Todo" },
+		});
+
+		expect(last.sent.body).not.toContain(
+			"Request body must include title.",
+		);
+		expect(last.sent.body).not.toContain("Catch them all");
+	});
+
+	test("Success message was flashed instead of the response message.", async () => {
+		const { request, response } = await createBrowserContext();
+
+		await response.send({
+			statusCode: StatusCode.OK,
+			message: "Settings updated",
+			flash: "Settings updated successfully!",
+			redirect: "/settings",
+		});
+
+		expect(request.session.get("flash")).toEqual([
+			{ type: "success", message: "Settings updated successfully!" },
+		]);
+		expect(request.session.exists("formValues")).toBe(false);
+	});
+
+	test("JSON clients were not sent flash messages.", async () => {
+		const { request, response } = await createContext({
+			headers: { accept: "application/json" },
+		});
+
+		await response.send({
+			statusCode: StatusCode.BadRequest,
+			message: "Invalid credentials.",
+			redirect: "/login",
+		});
+
+		expect(request.session.isEmpty()).toBe(true);
+	});
+});
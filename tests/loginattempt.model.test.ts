@@ -0,0 +1,86 @@
+import postgres from "postgres";
+import { test, describe, expect, afterEach } from "vitest";
+import LoginAttempt, {
+	LOCKOUT_TIME,
+	LOGIN_LIMITS,
+	TooManyLoginAttemptsError,
+	getLockoutTime,
+} from "../src/models/LoginAttempt";
+
+describe("Login attempt operations", () => {
+	const sql = postgres({
+		database: "TodoDB",
+	});
+
+	const ip = "203.0.113.1";
+	const email = "user@email.com";
+
+	/**
+	 * Fails to log in the given number of times.
+	 */
+	const fail = async (times: number, from = ip, as = email) => {
+		for (let i = 0; i < times; i++) {
+			await LoginAttempt.fail(sql, from, as);
+		}
+	};
+
+	afterEach(async () => {
+		try {
+			await sql`DELETE FROM login_attempts`;
+		} catch (error) {
+			console.error(error);
+		}
+	});
+
+	test("Delay doubled after the free attempts and ended in a lockout.", () => {
+		const { freeAttempts, lockoutAfter } = LOGIN_LIMITS.account;
+
+		expect(getLockoutTime("account", freeAttempts - 1)).toBe(0);
+		expect(getLockoutTime("account", freeAttempts)).toBe(1000);
+		expect(getLockoutTime("account", freeAttempts + 1)).toBe(2000);
+		expect(getLockoutTime("account", freeAttempts + 2)).toBe(4000);
+		expect(getLockoutTime("account", lockoutAfter)).toBe(LOCKOUT_TIME);
+		expect(getLockoutTime("ip", freeAttempts)).toBe(0);
+	});
+
+	test("Login was allowed during the free attempts.", async () => {
+		await fail(LOGIN_LIMITS.account.freeAttempts - 1);
+
+		await expect(
+			LoginAttempt.check(sql, ip, email),
+		).resolves.toBeUndefined();
+	});
+
+	test("Account was locked from every IP.", async () => {
+		await fail(LOGIN_LIMITS.account.lockoutAfter);
+
+		await expect(
+			LoginAttempt.check(sql, "198.51.100.1", "USER@email.com"),
+		).rejects.toThrow(TooManyLoginAttemptsError);
+	});
+
+	test("IP was locked for every account.", async () => {
+		for (let i = 0; i < LOGIN_LIMITS.ip.lockoutAfter; i++) {
+			await LoginAttempt.fail(sql, ip, `user${i}@email.com`);
+		}
+
+		await expect(
+			LoginAttempt.check(sql, ip, "other@email.com"),
+		).rejects.toThrow(TooManyLoginAttemptsError);
+	});
+
+	test("Account was unlocked by a reset.", async () => {
+		await fail(LOGIN_LIMITS.account.lockoutAfter, "198.51.100.1");
+
+		expect(await LoginAttempt.readLocked(sql, [email])).toEqual(
+			new Set([email]),
+		);
+
+		await LoginAttempt.reset(sql, email);
+
+		await expect(
+			LoginAttempt.check(sql, ip, email),
+		).resolves.toBeUndefined();
+		expect(await LoginAttempt.readLocked(sql, [email])).toEqual(new Set());
+	});
+});
@@ -0,0 +1,77 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { test, describe, expect, beforeEach, afterEach } from "vitest";
+import OutboxMailer from "../src/mail/OutboxMailer";
+
+describe("Outbox mailer", () => {
+	let directory: string;
+	let mailer: OutboxMailer;
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), "outbox-"));
+		mailer = new OutboxMailer(directory, "Todos <no-reply@example.com>");
+	});
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true });
+	});
+
+	test("Message was written to the outbox as an .eml file.", async () => {
+		await mailer.send({
+			to: "user@email.com",
+			subject: "Reset your password",
+			text: "Follow this link:\nhttp://localhost:3000/reset-password/abc",
+		});
+
+		const files = await fs.readdir(directory);
+		const [message] = await mailer.read();
+
+		expect(files).toHaveLength(1);
+		expect(files[0]).toMatch(/^\d+-\d{6}\.eml$/);
+		expect(message).toContain("From: Todos <no-reply@example.com>\r\n");
+		expect(message).toContain("To: user@email.com\r\n");
+		expect(message).toContain("Subject: Reset your password\r\n");
+		expect(message).toMatch(/Message-ID: <[\w-]+@example\.com>\r\n/);
+		expect(message).toMatch(
+			/\r\n\r\nFollow this link:\r\nhttp:\/\/localhost:3000\/reset-password\/abc$/,
+		);
+	});
+
+	test("Messages were read oldest first.", async () => {
+		for (const subject of ["First", "Second", "Third"]) {
+			await mailer.send({ to: "user@email.com", subject, text: "" });
+		}
+
+		const messages = await mailer.read();
+
+		expect(
+			messages.map((message) => message.match(/Subject: (\w+)/)![1]),
+		).toEqual(["First", "Second", "Third"]);
+	});
+
+	test("Non-ASCII subject was encoded.", async () => {
+		await mailer.send({ to: "user@email.com", subject: "Café", text: "" });
+
+		const [message] = await mailer.read();
+
+		expect(message).toContain("Subject: =?UTF-8?B?Q2Fmw6k=?=\r\n");
+	});
+
+	test("Header with a line break was rejected.", async () => {
+		await expect(
+			mailer.send({
+				to: "user@email.com\r\nBcc: everyone@email.com",
+				subject: "Hi",
+				text: "",
+			}),
+		).rejects.toThrow("Mail headers can't contain line breaks.");
+		expect(await mailer.read()).toEqual([]);
+	});
+
+	test("Empty outbox was read.", async () => {
+		expect(
+			await new OutboxMailer(path.join(directory, "missing")).read(),
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,39 @@
+import { test, describe, expect } from "vitest";
+import MinHeap from "../src/MinHeap";
+
+describe("MinHeap", () => {
+	test("Items were popped in order.", () => {
+		const heap = new MinHeap<number>((n) => n);
+		const numbers = Array.from({ length: 100 }, () =>
+			Math.floor(Math.random() * 1000),
+		);
+
+		for (const n of numbers) {
+			heap.push(n);
+		}
+
+		expect(heap.size).toBe(100);
+		expect(heap.peek()).toBe(Math.min(...numbers));
+
+		const popped: number[] = [];
+
+		while (heap.size > 0) {
+			popped.push(heap.pop()!);
+		}
+
+		expect(popped).toEqual([...numbers].sort((a, b) => a - b));
+		expect(heap.pop()).toBeUndefined();
+	});
+
+	test("Items were ordered by their key.", () => {
+		const heap = new MinHeap<{ name: string; at: number }>(({ at }) => at);
+
+		heap.push({ name: "b", at: 2 });
+		heap.push({ name: "a", at: 1 });
+		heap.push({ name: "c", at: 3 });
+
+		expect(heap.pop()?.name).toBe("a");
+		expect(heap.pop()?.name).toBe("b");
+		expect(heap.pop()?.name).toBe("c");
+	});
+});
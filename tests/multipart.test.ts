@@ -0,0 +1,226 @@
+import { IncomingMessage } from "http";
+import { Readable } from "stream";
+import { test, describe, expect, afterAll } from "vitest";
+import MultipartParser, {
+	PayloadTooLargeError,
+	sniffMimeType,
+} from "../src/router/MultipartParser";
+import Request from "../src/router/Request";
+import SessionManager from "../src/auth/SessionManager";
+
+describe("Multipart parsing", () => {
+	const boundary = "----TodoAppBoundary";
+	const png = Buffer.from([
+		0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x01, 0x02,
+	]);
+
+	/**
+	 * Builds a multipart/form-data body the same way a browser would.
+	 */
+	const createBody = (
+		fields: Record<string, string>,
+		files: {
+			name: string;
+			filename: string;
+			type: string;
+			data: Buffer;
+		}[] = [],
+	) => {
+		const parts: Buffer[] = [];
+
+		for (const [name, value] of Object.entries(fields)) {
+			parts.push(
+				Buffer.from(
+					`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+				),
+			);
+		}
+
+		for (const { name, filename, type, data } of files) {
+			parts.push(
+				Buffer.from(
+					`--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${filename}"\r\nContent-Type: ${type}\r\n\r\n`,
+				),
+				data,
+				Buffer.from("\r\n"),
+			);
+		}
+
+		parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+		return Buffer.concat(parts);
+	};
+
+	/**
+	 * Feeds the body to a parser a few bytes at a time, so that
+	 * delimiters and headers end up split across chunks.
+	 */
+	const parseInChunks = (
+		body: Buffer,
+		chunkSize: number,
+		parser = new MultipartParser(boundary),
+	) => {
+		for (let i = 0; i < body.length; i += chunkSize) {
+			parser.write(body.subarray(i, i + chunkSize));
+		}
+
+		parser.end();
+
+		return parser;
+	};
+
+	afterAll(() => {
+		SessionManager.getInstance().stopCleanUp();
+	});
+
+	test("Boundary was read from the Content-Type header.", () => {
+		expect(
+			MultipartParser.getBoundary(
+				`multipart/form-data; boundary=${boundary}`,
+			),
+		).toBe(boundary);
+		expect(
+			MultipartParser.getBoundary(
+				`multipart/form-data; boundary="${boundary}"`,
+			),
+		).toBe(boundary);
+		expect(
+			MultipartParser.getBoundary("multipart/form-data"),
+		).toBeUndefined();
+	});
+
+	test("Fields and files were parsed.", () => {
+		const body = createBody({ email: "user@email.com", method: "PUT" }, [
+			{
+				name: "avatar",
+				filename: "pikachu.png",
+				type: "image/png",
+				data: png,
+			},
+		]);
+
+		for (const chunkSize of [1, 7, body.length]) {
+			const parser = parseInChunks(body, chunkSize);
+
+			expect(parser.fields).toEqual({
+				email: "user@email.com",
+				method: "PUT",
+			});
+			expect(parser.files.avatar.filename).toBe("pikachu.png");
+			expect(parser.files.avatar.declaredType).toBe("image/png");
+			expect(parser.files.avatar.mimeType).toBe("image/png");
+			expect(parser.files.avatar.size).toBe(png.length);
+			expect(parser.files.avatar.data.equals(png)).toBe(true);
+		}
+	});
+
+	test("File type was sniffed from its contents.", () => {
+		const body = createBody({}, [
+			{
+				name: "avatar",
+				filename: "pikachu.png",
+				type: "image/png",
+				data: Buffer.from("<script>alert(1)</script>"),
+			},
+		]);
+
+		const parser = parseInChunks(body, body.length);
+
+		expect(parser.files.avatar.declaredType).toBe("image/png");
+		expect(parser.files.avatar.mimeType).toBeUndefined();
+		expect(sniffMimeType(png)).toBe("image/png");
+		expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+			"image/jpeg",
+		);
+		expect(sniffMimeType(Buffer.from("GIF89a..."))).toBe("image/gif");
+	});
+
+	test("Empty file input was ignored.", () => {
+		const body = createBody({ email: "user@email.com" }, [
+			{
+				name: "avatar",
+				filename: "",
+				type: "application/octet-stream",
+				data: Buffer.alloc(0),
+			},
+		]);
+
+		const parser = parseInChunks(body, body.length);
+
+		expect(parser.fields.email).toBe("user@email.com");
+		expect(parser.files).toEqual({});
+	});
+
+	test("File over the size limit was rejected.", () => {
+		const body = createBody({}, [
+			{
+				name: "avatar",
+				filename: "big.png",
+				type: "image/png",
+				data: Buffer.alloc(100),
+			},
+		]);
+		const parser = new MultipartParser(boundary, {
+			maxFileSize: 50,
+			maxFiles: 1,
+			maxFieldSize: 50,
+		});
+
+		expect(() => parseInChunks(body, 10, parser)).toThrow(
+			PayloadTooLargeError,
+		);
+	});
+
+	test("Too many files were rejected.", () => {
+		const file = {
+			name: "avatar",
+			filename: "pikachu.png",
+			type: "image/png",
+			data: png,
+		};
+		const body = createBody({}, [file, { ...file, name: "other" }]);
+		const parser = new MultipartParser(boundary, {
+			maxFileSize: 1024,
+			maxFiles: 1,
+			maxFieldSize: 1024,
+		});
+
+		expect(() => parseInChunks(body, body.length, parser)).toThrow(
+			"Too many files",
+		);
+	});
+
+	test("Truncated body was rejected.", () => {
+		const body = createBody({ email: "user@email.com" });
+
+		expect(() => parseInChunks(body.subarray(0, 40), 40)).toThrow(
+			"Multipart body ended unexpectedly.",
+		);
+	});
+
+	test("Request parsed a multipart body.", async () => {
+		const body = createBody({ email: "user@email.com" }, [
+			{
+				name: "avatar",
+				filename: "pikachu.png",
+				type: "image/png",
+				data: png,
+			},
+		]);
+		const stream = Readable.from([body.subarray(0, 20), body.subarray(20)]);
+		const request = new Request(
+			Object.assign(stream, {
+				method: "POST",
+				url: "/users/1",
+				headers: {
+					"content-type": `multipart/form-data; boundary=${boundary}`,
+				},
+			}) as unknown as IncomingMessage,
+		);
+
+		await request.parseBody();
+
+		expect(request.body).toEqual({ email: "user@email.com" });
+		expect(request.files.avatar.mimeType).toBe("image/png");
+	});
+});
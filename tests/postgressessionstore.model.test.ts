@@ -0,0 +1,201 @@
+import postgres from "postgres";
+import { test, describe, expect, afterEach, afterAll } from "vitest";
+import Session from "../src/auth/Session";
+import SessionManager from "../src/auth/SessionManager";
+import MemorySessionStore from "../src/auth/MemorySessionStore";
+import PostgresSessionStore from "../src/auth/PostgresSessionStore";
+import { createContext } from "./context";
+
+describe("Postgres session store operations", () => {
+	const sql = postgres({
+		database: "TodoDB",
+	});
+
+	const store = new PostgresSessionStore(sql);
+	const sessionManager = SessionManager.getInstance();
+
+	/**
+	 * Creates a session with the given data that expires in
+	 * `expiresIn` milliseconds, and saves it to the store.
+	 */
+	const createSession = async (
+		data: Record<string, any> = {},
+		expiresIn = 1000 * 60,
+	) => {
+		const session = new Session(crypto.randomUUID(), data);
+
+		session.refresh(expiresIn);
+		await store.set(session);
+
+		return session;
+	};
+
+	afterEach(async () => {
+		sessionManager.setStore(new MemorySessionStore());
+		sessionManager.setTimeouts(SessionManager.DEFAULT_TIMEOUTS);
+
+		try {
+			await sql`DELETE FROM sessions`;
+		} catch (error) {
+			console.error(error);
+		}
+	});
+
+	afterAll(async () => {
+		sessionManager.stopCleanUp();
+		await sql.end();
+	});
+
+	test("Session was stored and read back.", async () => {
+		const session = await createSession({
+			userId: 1,
+			isAdmin: false,
+			settings: { theme: "dark", pageSize: 10 },
+			flash: [{ type: "success", message: "Welcome back!" }],
+			loggedInAt: new Date("2024-03-01T12:00:00.000Z"),
+		});
+
+		const storedSession = await store.get(session.id);
+
+		expect(storedSession).toBeInstanceOf(Session);
+		expect(storedSession!.id).toBe(session.id);
+		expect(storedSession!.get("userId")).toBe(1);
+		expect(storedSession!.get("isAdmin")).toBe(false);
+		expect(storedSession!.get("settings")).toEqual({
+			theme: "dark",
+			pageSize: 10,
+		});
+		expect(storedSession!.get("flash")).toEqual(session.get("flash"));
+		// JSON has no dates, so they come back as strings.
+		expect(storedSession!.get("loggedInAt")).toBe(
+			"2024-03-01T12:00:00.000Z",
+		);
+		expect(storedSession!.createdAt).toBe(session.createdAt);
+		expect(storedSession!.cookie.getExpires()).toBe(
+			session.cookie.getExpires(),
+		);
+		expect(storedSession!.shouldRegenerate).toBe(false);
+		expect(storedSession!.isModified).toBe(false);
+	});
+
+	test("Stored session was replaced.", async () => {
+		const session = await createSession({ userId: 1 });
+
+		session.set("userId", 2);
+		session.shouldRegenerate = true;
+		await store.set(session);
+
+		const storedSession = await store.get(session.id);
+
+		expect(storedSession!.get("userId")).toBe(2);
+		expect(storedSession!.shouldRegenerate).toBe(true);
+		expect(await store.size()).toBe(1);
+	});
+
+	test("Session was not read.", async () => {
+		expect(await store.get("does-not-exist")).toBeUndefined();
+	});
+
+	test("Session was destroyed.", async () => {
+		const session = await createSession({ userId: 1 });
+
+		await store.destroy(session.id);
+
+		expect(await store.get(session.id)).toBeUndefined();
+		expect(await store.size()).toBe(0);
+	});
+
+	test("Session expiry was updated without its data.", async () => {
+		const session = await createSession({ userId: 1 }, 1000);
+
+		session.set("userId", 2);
+		session.refresh(1000 * 60 * 60);
+		await store.touch(session);
+
+		const storedSession = await store.get(session.id);
+
+		expect(storedSession!.get("userId")).toBe(1);
+		expect(storedSession!.cookie.getExpires()).toBe(
+			session.cookie.getExpires(),
+		);
+	});
+
+	test("Expired sessions were not read and were pruned.", async () => {
+		const session = await createSession({ userId: 1 });
+		const expiredSession = await createSession({ userId: 2 }, -1000);
+
+		expect(await store.get(expiredSession.id)).toBeUndefined();
+		expect(await store.size()).toBe(1);
+		expect(await store.prune()).toBe(1);
+		expect(await store.prune()).toBe(0);
+		expect(await store.get(session.id)).toBeInstanceOf(Session);
+	});
+
+	test("User's sessions were updated and flagged to be regenerated.", async () => {
+		const session = await createSession({ userId: 1, isAdmin: false });
+		const otherSession = await createSession({ userId: 2, isAdmin: false });
+
+		await store.updateUserSessions(1, { isAdmin: true });
+
+		const updatedSession = await store.get(session.id);
+		const otherStoredSession = await store.get(otherSession.id);
+
+		expect(updatedSession!.get("userId")).toBe(1);
+		expect(updatedSession!.get("isAdmin")).toBe(true);
+		expect(updatedSession!.shouldRegenerate).toBe(true);
+		expect(otherStoredSession!.get("isAdmin")).toBe(false);
+		expect(otherStoredSession!.shouldRegenerate).toBe(false);
+	});
+
+	test("Flagged session was regenerated on its next request.", async () => {
+		sessionManager.setStore(store);
+
+		const session = await createSession({ userId: 1, isAdmin: false });
+
+		await sessionManager.updateUserSessions(1, { isAdmin: true });
+
+		const { request } = await createContext({
+			headers: { cookie: `session_id=${session.id}` },
+		});
+
+		expect(request.session.id).not.toBe(session.id);
+		expect(request.session.get("isAdmin")).toBe(true);
+		expect(request.session.shouldRegenerate).toBe(false);
+		expect(await store.get(session.id)).toBeUndefined();
+
+		const regeneratedSession = await store.get(request.session.id);
+
+		expect(regeneratedSession!.get("userId")).toBe(1);
+		expect(regeneratedSession!.shouldRegenerate).toBe(false);
+	});
+
+	test("User's sessions were destroyed.", async () => {
+		await createSession({ userId: 1 });
+		await createSession({ userId: 1 });
+
+		const otherSession = await createSession({ userId: 2 });
+
+		await store.destroyUserSessions(1);
+
+		expect(await store.size()).toBe(1);
+		expect(await store.get(otherSession.id)).toBeInstanceOf(Session);
+	});
+
+	test("Session expired once the absolute timeout was lowered.", async () => {
+		sessionManager.setStore(store);
+
+		const session = new Session(crypto.randomUUID(), { userId: 1 });
+
+		// The session started two hours ago and would last another hour.
+		session.createdAt = Date.now() - 1000 * 60 * 60 * 2;
+		session.refresh(1000 * 60 * 60);
+		await store.set(session);
+
+		expect(await sessionManager.get(session.id)).toBeInstanceOf(Session);
+
+		sessionManager.setTimeouts({ absoluteTimeout: 1000 * 60 * 60 });
+
+		expect(await sessionManager.get(session.id)).toBeUndefined();
+		expect(await store.size()).toBe(0);
+	});
+});
@@ -0,0 +1,251 @@
+import { test, describe, expect, afterAll } from "vitest";
+import Router, { Middleware } from "../src/router/Router";
+import { StatusCode } from "../src/router/Response";
+import SessionManager from "../src/auth/SessionManager";
+import { requireAdmin, requireAuth } from "../src/auth/guards";
+import { createContext } from "./context";
+
+describe("Router", () => {
+	const handler = () => {};
+
+	afterAll(() => {
+		SessionManager.getInstance().stopCleanUp();
+	});
+
+	test("Route was matched.", () => {
+		const router = new Router();
+
+		router.get("/todos", handler);
+
+		const route = router.findMatchingRoute("GET", "/todos");
+
+		expect(route?.handler).toBe(handler);
+		expect(route?.params).toEqual({});
+	});
+
+	test("Route was not matched.", () => {
+		const router = new Router();
+
+		router.get("/todos", handler);
+
+		expect(router.findMatchingRoute("GET", "/tods")).toBeUndefined();
+		expect(router.findMatchingRoute("POST", "/todos")).toBeUndefined();
+		expect(router.findMatchingRoute("PATCH", "/todos")).toBeUndefined();
+	});
+
+	test("Route parameters were captured.", () => {
+		const router = new Router();
+
+		router.get("/users/:userId/todos/:todoId", handler);
+
+		const route = router.findMatchingRoute("GET", "/users/1/todos/2");
+
+		expect(route?.params).toEqual({ userId: "1", todoId: "2" });
+	});
+
+	test("Route parameters were decoded.", () => {
+		const router = new Router();
+
+		router.get("/tags/:name", handler);
+
+		const route = router.findMatchingRoute("GET", "/tags/hello%20world");
+
+		expect(route?.params).toEqual({ name: "hello world" });
+	});
+
+	test("Query string was ignored when matching.", () => {
+		const router = new Router();
+
+		router.get("/todos/:id", handler);
+
+		const route = router.findMatchingRoute(
+			"GET",
+			"/todos/1?completed=true",
+		);
+
+		expect(route?.params).toEqual({ id: "1" });
+	});
+
+	test("Middlewares were run in order around the handler.", async () => {
+		const router = new Router();
+		const calls: string[] = [];
+		const middleware =
+			(name: string): Middleware =>
+			async (req, res, next) => {
+				calls.push(`${name} before`);
+				await next();
+				calls.push(`${name} after`);
+			};
+
+		router.use(middleware("global"));
+		router.get("/todos", middleware("route"), () => {
+			calls.push("handler");
+		});
+
+		const { request, response } = await createContext({
+			method: "GET",
+			url: "/todos",
+		});
+
+		await router.handle(request, response);
+
+		expect(calls).toEqual([
+			"global before",
+			"route before",
+			"handler",
+			"route after",
+			"global after",
+		]);
+	});
+
+	test("Middleware ended the request without calling next.", async () => {
+		const router = new Router();
+		let handled = false;
+
+		router.get(
+			"/todos",
+			async (req, res) => {
+				await res.send({
+					statusCode: StatusCode.Forbidden,
+					message: "Forbidden",
+				});
+			},
+			() => {
+				handled = true;
+			},
+		);
+
+		const { request, response, sent } = await createContext({
+			method: "GET",
+			url: "/todos",
+		});
+
+		await router.handle(request, response);
+
+		expect(handled).toBe(false);
+		expect(sent.statusCode).toBe(StatusCode.Forbidden);
+	});
+
+	test("Route parameters were available to the handler.", async () => {
+		const router = new Router();
+		let id: string | undefined;
+
+		router.get("/todos/:id", (req) => {
+			id = req.params.id;
+		});
+
+		const { request, response } = await createContext({
+			method: "GET",
+			url: "/todos/1",
+		});
+
+		await router.handle(request, response);
+
+		expect(id).toBe("1");
+	});
+
+	test("Unknown route was sent a 404.", async () => {
+		const router = new Router();
+		const { request, response, sent } = await createContext({
+			method: "GET",
+			url: "/tods",
+		});
+
+		await router.handle(request, response);
+
+		expect(sent.statusCode).toBe(StatusCode.NotFound);
+		expect(JSON.parse(sent.body!).message).toBe("Invalid route: GET /tods");
+	});
+
+	test("Middleware was not allowed to call next twice.", async () => {
+		const router = new Router();
+
+		router.use(async (req, res, next) => {
+			await next();
+			await next();
+		});
+		router.get("/todos", handler);
+
+		const { request, response } = await createContext({
+			method: "GET",
+			url: "/todos",
+		});
+
+		await expect(router.handle(request, response)).rejects.toThrow(
+			"next() was called more than once.",
+		);
+	});
+
+	test("Guest was stopped by requireAuth.", async () => {
+		const router = new Router();
+
+		router.get("/todos", requireAuth, handler);
+
+		const { request, response, sent } = await createContext({
+			method: "GET",
+			url: "/todos",
+		});
+
+		await router.handle(request, response);
+
+		expect(sent.statusCode).toBe(StatusCode.Unauthorized);
+		expect(JSON.parse(sent.body!).message).toBe("Unauthorized");
+	});
+
+	test("User was let through by requireAuth.", async () => {
+		const router = new Router();
+		let handled = false;
+
+		router.get("/todos", requireAuth, () => {
+			handled = true;
+		});
+
+		const { request, response } = await createContext({
+			method: "GET",
+			url: "/todos",
+		});
+
+		request.session.set("userId", 1);
+		await router.handle(request, response);
+
+		expect(handled).toBe(true);
+	});
+
+	test("Non-admin was stopped by requireAdmin.", async () => {
+		const router = new Router();
+
+		router.get("/users", requireAdmin, handler);
+
+		const { request, response, sent } = await createContext({
+			method: "GET",
+			url: "/users",
+		});
+
+		request.session.set("userId", 1);
+		request.session.set("isAdmin", false);
+		await router.handle(request, response);
+
+		expect(sent.statusCode).toBe(StatusCode.Forbidden);
+		expect(JSON.parse(sent.body!).message).toBe("Unauthorized");
+	});
+
+	test("Admin was let through by requireAdmin.", async () => {
+		const router = new Router();
+		let handled = false;
+
+		router.get("/users", requireAdmin, () => {
+			handled = true;
+		});
+
+		const { request, response } = await createContext({
+			method: "GET",
+			url: "/users",
+		});
+
+		request.session.set("userId", 1);
+		request.session.set("isAdmin", true);
+		await router.handle(request, response);
+
+		expect(handled).toBe(true);
+	});
+});
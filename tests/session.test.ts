@@ -0,0 +1,249 @@
+import { IncomingMessage } from "http";
+import {
+	test,
+	describe,
+	expect,
+	afterAll,
+	afterEach,
+	beforeEach,
+	vi,
+} from "vitest";
+import Request from "../src/router/Request";
+import Router from "../src/router/Router";
+import { StatusCode } from "../src/router/Response";
+import { errorHandler, sessionLoader } from "../src/router/middleware";
+import SessionManager from "../src/auth/SessionManager";
+import MemorySessionStore from "../src/auth/MemorySessionStore";
+import { createContext } from "./context";
+
+describe("Sessions", () => {
+	const sessionManager = SessionManager.getInstance();
+	let store: MemorySessionStore;
+
+	/**
+	 * Creates a request that sends the given session cookie.
+	 */
+	const createRequest = async (sessionId?: string) => {
+		const request = new Request({
+			method: "GET",
+			url: "/",
+			headers: sessionId ? { cookie: `session_id=${sessionId}` } : {},
+		} as IncomingMessage);
+
+		await request.getSession();
+
+		return request;
+	};
+
+	/**
+	 * Creates a session with the given data and saves it to the store.
+	 */
+	const createStoredSession = async (data: Record<string, any>) => {
+		const session = await sessionManager.createSession();
+
+		for (const [name, value] of Object.entries(data)) {
+			session.set(name, value);
+		}
+
+		await sessionManager.save(session);
+
+		return session;
+	};
+
+	beforeEach(() => {
+		store = new MemorySessionStore();
+		sessionManager.setStore(store);
+	});
+
+	afterEach(() => {
+		sessionManager.setTimeouts(SessionManager.DEFAULT_TIMEOUTS);
+		vi.useRealTimers();
+	});
+
+	afterAll(() => {
+		sessionManager.stopCleanUp();
+	});
+
+	test("Session IDs have 128 bits of entropy.", async () => {
+		const session = await sessionManager.createSession();
+
+		expect(session.id).toMatch(/^[0-9a-f]{32}$/);
+		expect(session.cookie.value).toBe(session.id);
+	});
+
+	test("Session IDs are unique.", async () => {
+		const ids = new Set<string>();
+
+		for (let i = 0; i < 1000; i++) {
+			ids.add((await sessionManager.createSession()).id);
+		}
+
+		expect(ids.size).toBe(1000);
+	});
+
+	test("Session was loaded from the store.", async () => {
+		const session = await createStoredSession({ userId: 1 });
+		const request = await createRequest(session.id);
+
+		expect(request.session).toBe(session);
+		expect(request.cookies).toHaveLength(1);
+	});
+
+	test("Empty session was not stored.", async () => {
+		const request = await createRequest("unknown");
+
+		expect(request.session.id).not.toBe("unknown");
+
+		await sessionManager.save(request.session);
+
+		expect(await sessionManager.get(request.session.id)).toBeUndefined();
+		expect(await sessionManager.size()).toBe(0);
+	});
+
+	test("Session was saved and destroyed.", async () => {
+		const request = await createRequest();
+
+		request.session.set("userId", 1);
+		await sessionManager.save(request.session);
+
+		expect(request.session.isModified).toBe(false);
+		expect(await sessionManager.get(request.session.id)).toBe(
+			request.session,
+		);
+
+		request.session.destroy();
+		await sessionManager.save(request.session);
+
+		expect(await sessionManager.get(request.session.id)).toBeUndefined();
+	});
+
+	test("Expired sessions were pruned.", async () => {
+		const session = await createStoredSession({ userId: 1 });
+		const expiredSession = await sessionManager.createSession();
+		const refreshedSession = await sessionManager.createSession();
+
+		expiredSession.cookie.setExpires(-1000);
+		refreshedSession.cookie.setExpires(-1000);
+		await store.set(expiredSession);
+		await store.set(refreshedSession);
+		refreshedSession.refresh();
+
+		const { expired } = await sessionManager.stats();
+
+		expect(await sessionManager.get(expiredSession.id)).toBeUndefined();
+
+		await sessionManager.cleanUpSessions();
+
+		expect([...store.sessions.values()]).toEqual([
+			session,
+			refreshedSession,
+		]);
+		expect(await sessionManager.stats()).toMatchObject({
+			size: 2,
+			expired: expired + 1,
+		});
+
+		// The refreshed session was pushed back with its new expiry.
+		await sessionManager.cleanUpSessions();
+
+		expect(await sessionManager.size()).toBe(2);
+	});
+
+	test("Session was regenerated with its data.", async () => {
+		const request = await createRequest();
+		const oldSession = request.session;
+		oldSession.set("userId", 1);
+
+		const newSession = await request.regenerateSession();
+
+		expect(newSession.id).not.toBe(oldSession.id);
+		expect(newSession.get("userId")).toBe(1);
+		expect(newSession.cookie.getExpires()).toBe(
+			oldSession.cookie.getExpires(),
+		);
+		expect(request.session).toBe(newSession);
+		expect(await sessionManager.get(oldSession.id)).toBeUndefined();
+		expect(await sessionManager.get(newSession.id)).toBe(newSession);
+	});
+
+	test("User's sessions were updated and regenerated on their next request.", async () => {
+		const session = await createStoredSession({
+			userId: 1,
+			isAdmin: false,
+		});
+		const otherSession = await createStoredSession({ userId: 2 });
+
+		await sessionManager.updateUserSessions(1, { isAdmin: true });
+
+		expect(otherSession.shouldRegenerate).toBe(false);
+
+		const request = await createRequest(session.id);
+
+		expect(request.session.id).not.toBe(session.id);
+		expect(request.session.get("isAdmin")).toBe(true);
+		expect(request.session.shouldRegenerate).toBe(false);
+		expect(await sessionManager.get(session.id)).toBeUndefined();
+	});
+
+	test("Logged in user's session was extended on every request.", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		sessionManager.setTimeouts({ idleTimeout: 1000 });
+
+		const session = await createStoredSession({ userId: 1 });
+
+		for (let i = 0; i < 5; i++) {
+			vi.advanceTimersByTime(900);
+
+			const request = await createRequest(session.id);
+
+			expect(request.session).toBe(session);
+			expect(session.cookie.getExpires()).toBe(Date.now() + 1000);
+		}
+
+		vi.advanceTimersByTime(1000);
+
+		expect(await sessionManager.get(session.id)).toBeUndefined();
+	});
+
+	test("Session expired after its absolute lifetime.", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		sessionManager.setTimeouts({
+			idleTimeout: 1000,
+			absoluteTimeout: 3000,
+		});
+
+		const session = await createStoredSession({ userId: 1 });
+
+		for (let i = 0; i < 3; i++) {
+			vi.advanceTimersByTime(900);
+			await createRequest(session.id);
+		}
+
+		// The idle timeout can't push the session past its absolute lifetime.
+		expect(session.cookie.getExpires()).toBe(session.createdAt + 3000);
+
+		vi.advanceTimersByTime(300);
+
+		const request = await createRequest(session.id);
+
+		expect(request.session).not.toBe(session);
+		expect(request.session.exists("userId")).toBe(false);
+	});
+
+	test("Session store error was answered with a 500.", async () => {
+		const router = new Router();
+		const { request, response, sent } = await createContext({
+			headers: { cookie: "session_id=abc123" },
+			session: false,
+		});
+
+		vi.spyOn(store, "get").mockRejectedValue(new Error("Connection lost"));
+		router.use(errorHandler, sessionLoader);
+		router.get("/", () => {});
+
+		await router.handle(request, response);
+
+		expect(sent.statusCode).toBe(StatusCode.InternalServerError);
+		expect(sent.headers["Set-Cookie"]).toBeUndefined();
+	});
+});
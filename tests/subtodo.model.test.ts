@@ -0,0 +1,138 @@
+import postgres from "postgres";
+import Todo, { TodoProps } from "../src/models/Todo";
+import SubTodo, { SubTodoProps } from "../src/models/SubTodo";
+import { test, describe, expect, afterEach, beforeEach } from "vitest";
+import { createUTCDate } from "../src/utils";
+import User from "../src/models/User";
+
+describe("SubTodo CRUD operations", () => {
+	// Set up the connection to the DB.
+	const sql = postgres({
+		database: "TodoDB",
+	});
+
+	const createTodo = async (props: Partial<TodoProps> = {}) => {
+		return await Todo.create(sql, {
+			title: props.title || "Test Todo",
+			description: props.description || "This is a test todo",
+			status: props.status || "incomplete",
+			createdAt: props.createdAt || createUTCDate(),
+			userId: props.userId || 1,
+		});
+	};
+
+	/**
+	 * Helper function to create a SubTodo with default or provided properties.
+	 * @param props The properties of the SubTodo.
+	 * @default title: "Test Sub-todo"
+	 * @default status: "incomplete"
+	 * @default createdAt: The current date/time
+	 * @default todoId: 1
+	 * @returns A new SubTodo object that has been persisted in the DB.
+	 */
+	const createSubTodo = async (props: Partial<SubTodoProps> = {}) => {
+		return await SubTodo.create(sql, {
+			title: props.title || "Test Sub-todo",
+			status: props.status || "incomplete",
+			createdAt: props.createdAt || createUTCDate(),
+			todoId: props.todoId || 1,
+		});
+	};
+
+	beforeEach(async () => {
+		await User.create(sql, {
+			email: "user@email.com",
+			password: "password",
+			createdAt: createUTCDate(),
+		});
+		await createTodo();
+	});
+
+	/**
+	 * Clean up the database after each test. This function deletes all the rows
+	 * from the todos and subtodos tables and resets the sequence for each table.
+	 * @see https://www.postgresql.org/docs/13/sql-altersequence.html
+	 */
+	afterEach(async () => {
+		const tables = ["todos", "subtodos", "users"];
+
+		try {
+			for (const table of tables) {
+				await sql.unsafe(`DELETE FROM ${table}`);
+				await sql.unsafe(
+					`ALTER SEQUENCE ${table}_id_seq RESTART WITH 1;`,
+				);
+			}
+		} catch (error) {
+			console.error(error);
+		}
+	});
+
+	test("SubTodo was created.", async () => {
+		const subTodo = await createSubTodo({ title: "Test Sub-todo 2" });
+
+		expect(subTodo.props.title).toBe("Test Sub-todo 2");
+		expect(subTodo.props.status).toBe("incomplete");
+		expect(subTodo.props.todoId).toBe(1);
+	});
+
+	test("SubTodo was retrieved.", async () => {
+		const subTodo = await createSubTodo();
+		const readSubTodo = await SubTodo.read(sql, subTodo.props.id!);
+
+		expect(readSubTodo?.props.title).toBe("Test Sub-todo");
+		expect(readSubTodo?.props.status).toBe("incomplete");
+	});
+
+	test("SubTodos were listed for their todo.", async () => {
+		await createTodo();
+
+		const subTodo1 = await createSubTodo();
+		const subTodo2 = await createSubTodo();
+		const subTodo3 = await createSubTodo({ todoId: 2 });
+
+		const subTodos = await SubTodo.readAll(sql, 1);
+
+		expect(subTodos).toEqual([subTodo1, subTodo2]);
+		expect(subTodos).not.toContainEqual(subTodo3);
+	});
+
+	test("SubTodo was updated.", async () => {
+		const subTodo = await createSubTodo();
+
+		await subTodo.update({ title: "Updated Test Sub-todo" });
+
+		const updatedSubTodo = await SubTodo.read(sql, subTodo.props.id!);
+
+		expect(updatedSubTodo?.props.title).toBe("Updated Test Sub-todo");
+		expect(updatedSubTodo?.props.editedAt).toBeTruthy();
+	});
+
+	test("SubTodo was deleted.", async () => {
+		const subTodo = await createSubTodo();
+
+		await subTodo.delete();
+
+		expect(await SubTodo.read(sql, subTodo.props.id!)).toBeNull();
+	});
+
+	test("SubTodo was deleted along with its todo.", async () => {
+		const subTodo = await createSubTodo();
+		const todo = await Todo.read(sql, 1);
+
+		await todo?.delete();
+
+		expect(await SubTodo.read(sql, subTodo.props.id!)).toBeNull();
+	});
+
+	test("SubTodo was marked as complete.", async () => {
+		const subTodo = await createSubTodo();
+
+		await subTodo.markComplete();
+
+		const completedSubTodo = await SubTodo.read(sql, subTodo.props.id!);
+
+		expect(completedSubTodo?.props.status).toBe("complete");
+		expect(completedSubTodo?.props.completedAt).toBeTruthy();
+	});
+});
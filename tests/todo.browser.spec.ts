@@ -43,7 +43,8 @@ const createUser = async (props: Partial<UserProps> = {}) => {
 		email: props.email || "user@email.com",
 		password: props.password || "password",
 		createdAt: props.createdAt || createUTCDate(),
-		// isAdmin: props.isAdmin || false, // Uncomment if implementing admin feature.
+		isAdmin: props.isAdmin || false,
+		verifiedAt: "verifiedAt" in props ? props.verifiedAt : createUTCDate(),
 	});
 };
 
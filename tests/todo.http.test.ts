@@ -46,6 +46,8 @@ describe("Todo HTTP operations", () => {
 			password: props.password || "password",
 			createdAt: props.createdAt || createUTCDate(),
 			// isAdmin: props.isAdmin || false, // Uncomment if implementing admin feature.
+			verifiedAt:
+				"verifiedAt" in props ? props.verifiedAt : createUTCDate(),
 		});
 	};
 
@@ -416,6 +418,29 @@ describe("Todo HTTP operations", () => {
 		expect(body.payload.todos[1].completedAt).toBeNull();
 	});
 
+	test("Todos were filtered by an ISO due date.", async () => {
+		await login();
+
+		await createTodo({
+			title: "Due soon",
+			dueAt: new Date("2024-03-01T12:00:00.000Z"),
+		});
+		await createTodo({
+			title: "Overdue",
+			dueAt: new Date("2024-02-01T12:00:00.000Z"),
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos?dueAfter=2024-03-01T00:00:00.000Z",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.todos.map((todo: TodoProps) => todo.title)).toEqual(
+			["Due soon"],
+		);
+	});
+
 	test("Todos were not listed by unauthenticated user.", async () => {
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"GET",
@@ -425,4 +450,82 @@ describe("Todo HTTP operations", () => {
 		expect(statusCode).toBe(StatusCode.Unauthorized);
 		expect(body.message).toBe("Unauthorized");
 	});
+
+	test("Todos were not listed with a cursor from another sort.", async () => {
+		await login();
+
+		await createTodo({ title: "A" });
+		await createTodo({ title: "B" });
+
+		const { nextCursor } = await Todo.readPage(sql, 1, {}, "title", "asc", {
+			limit: 1,
+		});
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/todos?sortBy=dueAt&limit=1&cursor=${nextCursor}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Invalid cursor.");
+	});
+
+	test("SubTodo was created.", async () => {
+		await login();
+
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			`/todos/${todo.props.id}/sub-todos`,
+			{
+				title: "Test Sub-todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.Created);
+		expect(body.message).toBe("Sub-todo created successfully!");
+		expect(body.payload.subTodo.title).toBe("Test Sub-todo");
+		expect(body.payload.subTodo.status).toBe("incomplete");
+		expect(body.payload.subTodo.todoId).toBe(todo.props.id);
+	});
+
+	test("SubTodo was marked as complete.", async () => {
+		await login();
+
+		const todo = await createTodo();
+		const { body: created }: HttpResponse = await makeHttpRequest(
+			"POST",
+			`/todos/${todo.props.id}/sub-todos`,
+			{
+				title: "Test Sub-todo",
+			},
+		);
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/todos/${todo.props.id}/sub-todos/${created.payload.subTodo.id}/complete`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Sub-todo marked as complete!");
+		expect(body.payload.subTodo.status).toBe("complete");
+		expect(body.payload.subTodo.completedAt).not.toBeNull();
+	});
+
+	test("SubTodo was not created by another user.", async () => {
+		await createUser({
+			email: "user1@email.com",
+		});
+		await login("user1@email.com");
+
+		const todo = await createTodo();
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			`/todos/${todo.props.id}/sub-todos`,
+			{
+				title: "Test Sub-todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.Forbidden);
+		expect(body.message).toBe("Forbidden");
+	});
 });
@@ -119,6 +119,21 @@ describe("Todo CRUD operations", () => {
 		expect(todos).toContainEqual(todo3);
 	});
 
+	test("Todos were only listed for their owner.", async () => {
+		await createUser({ email: "user2@email.com" });
+
+		// Create a todo for each user.
+		const todo1 = await createTodo({ userId: 1 });
+		const todo2 = await createTodo({ userId: 2 });
+
+		// List the todos of the first user from the database.
+		const todos = await Todo.readAll(sql, 1);
+
+		// Check if only the first user's todo is in the list.
+		expect(todos).toContainEqual(todo1);
+		expect(todos).not.toContainEqual(todo2);
+	});
+
 	test("Todos were listed by status.", async () => {
 		// Create a new todo.
 		const todo1 = await createTodo();
@@ -145,6 +160,135 @@ describe("Todo CRUD operations", () => {
 		expect(completeTodos).toContainEqual(todo2);
 	});
 
+	test("Todos were listed by due date range.", async () => {
+		// Create todos that are due on different days.
+		const todo1 = await createTodo({
+			dueAt: createUTCDate(new Date("2024-03-01")),
+		});
+		const todo2 = await createTodo({
+			dueAt: createUTCDate(new Date("2024-03-15")),
+		});
+		const todo3 = await createTodo({
+			dueAt: createUTCDate(new Date("2024-03-31")),
+		});
+
+		// List the todos due in the first half of the month.
+		const todos = await Todo.readAll(sql, 1, {
+			dueAfter: new Date("2024-03-01"),
+			dueBefore: new Date("2024-03-16"),
+		});
+
+		// Check if only the todos in the range are in the list.
+		expect(todos).toContainEqual(todo1);
+		expect(todos).toContainEqual(todo2);
+		expect(todos).not.toContainEqual(todo3);
+	});
+
+	test("Todos were sorted.", async () => {
+		// Create todos with titles out of alphabetical order.
+		const todo1 = await createTodo({ title: "B" });
+		const todo2 = await createTodo({ title: "C" });
+		const todo3 = await createTodo({ title: "A" });
+
+		// List the todos sorted by title in descending order.
+		const todos = await Todo.readAll(sql, 1, {}, "title", "desc");
+
+		// Check if the todos are in the expected order.
+		expect(todos).toEqual([todo2, todo1, todo3]);
+	});
+
+	test("Todos were not sorted by an unknown column.", async () => {
+		// Create todos in order.
+		const todo1 = await createTodo();
+		const todo2 = await createTodo();
+
+		// Try to sort by something that isn't a column.
+		const todos = await Todo.readAll(sql, 1, {}, "id; DROP TABLE todos");
+
+		// Check if the todos fell back to being sorted by ID.
+		expect(todos).toEqual([todo1, todo2]);
+	});
+
+	test("Todos were paginated by page.", async () => {
+		// Create more todos than fit on one page.
+		const todos = [
+			await createTodo(),
+			await createTodo(),
+			await createTodo(),
+		];
+
+		// Read the second page of two todos each.
+		const page = await Todo.readPage(sql, 1, {}, "id", "asc", {
+			limit: 2,
+			offset: 2,
+		});
+
+		// Check if only the last todo is on the page.
+		expect(page.todos).toEqual([todos[2]]);
+		expect(page.total).toBe(3);
+		expect(page.nextCursor).toBeNull();
+		expect(page.prevCursor).not.toBeNull();
+	});
+
+	test("Todos were paginated by cursor.", async () => {
+		// Create more todos than fit on one page.
+		const todos = [
+			await createTodo({ title: "A" }),
+			await createTodo({ title: "B" }),
+			await createTodo({ title: "C" }),
+		];
+
+		// Read the first page, then follow the cursor to the next page and back.
+		const first = await Todo.readPage(sql, 1, {}, "title", "desc", {
+			limit: 2,
+		});
+		const second = await Todo.readPage(sql, 1, {}, "title", "desc", {
+			limit: 2,
+			cursor: first.nextCursor!,
+		});
+		const previous = await Todo.readPage(sql, 1, {}, "title", "desc", {
+			limit: 2,
+			cursor: second.prevCursor!,
+		});
+
+		// Check if each page has the expected todos.
+		expect(first.todos).toEqual([todos[2], todos[1]]);
+		expect(second.todos).toEqual([todos[0]]);
+		expect(second.nextCursor).toBeNull();
+		expect(previous.todos).toEqual(first.todos);
+		expect(previous.prevCursor).toBeNull();
+	});
+
+	test("Todos were not paginated with an invalid cursor.", async () => {
+		await expect(async () => {
+			await Todo.readPage(sql, 1, {}, "id", "asc", {
+				limit: 2,
+				cursor: "not-a-cursor",
+			});
+		}).rejects.toThrow("Invalid cursor.");
+	});
+
+	test("Todos were not paginated with a cursor from another sort.", async () => {
+		await createTodo({ title: "A" });
+		await createTodo({ title: "B" });
+
+		const { nextCursor } = await Todo.readPage(sql, 1, {}, "title", "asc", {
+			limit: 1,
+		});
+
+		for (const [sortBy, orderBy] of [
+			["dueAt", "asc"],
+			["title", "desc"],
+		]) {
+			await expect(async () => {
+				await Todo.readPage(sql, 1, {}, sortBy, orderBy, {
+					limit: 1,
+					cursor: nextCursor!,
+				});
+			}).rejects.toThrow("Invalid cursor.");
+		}
+	});
+
 	test("Todo was updated.", async () => {
 		// Create a new todo.
 		const todo = await createTodo();
@@ -13,7 +13,8 @@ const createUser = async (props: Partial<UserProps> = {}) => {
 		email: props.email || "user@email.com",
 		password: props.password || "password",
 		createdAt: props.createdAt || createUTCDate(),
-		// isAdmin: props.isAdmin || false, // Uncomment if implementing admin feature.
+		isAdmin: props.isAdmin || false,
+		verifiedAt: "verifiedAt" in props ? props.verifiedAt : createUTCDate(),
 	});
 };
 
@@ -184,8 +185,6 @@ test("User's email was remembered.", async ({ page }) => {
 	expect(emailCookie?.value).toBe(user.props.email);
 });
 
-/* *** Uncomment if implementing admin feature, as well as the comment above in createUser(). ***
-
 test("Users were listed.", async ({ page }) => {
 	const users = [
 		await createUser({ email: "user1@example.com" }),
@@ -265,8 +264,6 @@ test("User was made an admin.", async ({ page }) => {
 	expect(body2).not.toMatch("You are not authorized to view this page.");
 });
 
-
-
 test("Admin can delete user.", async ({ page }) => {
 	const user = await createUser();
 	const admin = await createUser({
@@ -298,10 +295,6 @@ test("Admin can delete user.", async ({ page }) => {
 	expect((await page.$$(`[user-id]`)).length).toBe(userCount - 1);
 });
 
-*/
-
-/* *** Uncomment if implementing profile feature. ***
-
 test("User was updated.", async ({ page }) => {
 	const user = await createUser({ password: "Password123" });
 
@@ -323,6 +316,10 @@ test("User was updated.", async ({ page }) => {
 		'form#edit-user-form input[name="password"]',
 		"newpassword",
 	);
+	await page.fill(
+		'form#edit-user-form input[name="currentPassword"]',
+		"Password123",
+	);
 	await page.click("form#edit-user-form #edit-user-form-submit-button");
 
 	expect(await page?.url()).toMatch(getPath(`users/${user.props.id}/edit`));
@@ -377,28 +374,71 @@ test("User was updated with profile picture.", async ({ page }) => {
 
 	await page.goto(`/users/${user.props.id}/edit`);
 
-	const profilePicturePath = "https://picsum.photos/id/238/100";
-
-	await page.fill(
-		'form#edit-user-form input[name="profile"]',
-		profilePicturePath,
+	// The smallest valid PNG: a single transparent pixel.
+	const profilePicture = Buffer.from(
+		"iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+		"base64",
 	);
-	await page.click("form#edit-user-form #edit-user-form-submit-button");
 
-	// Get profile picture in nav
-	const profilePicture = await page.$("nav img");
-	const profilePictureInput = await page.$(
-		`form#edit-user-form input[name="profile"]`,
-	);
+	await page.setInputFiles('form#edit-user-form input[name="avatar"]', {
+		name: "pikachu.png",
+		mimeType: "image/png",
+		buffer: profilePicture,
+	});
+	await page.click("form#edit-user-form #edit-user-form-submit-button");
 
 	expect(await page?.url()).toMatch(getPath(`users/${user.props.id}/edit`));
 	expect(await page?.textContent("body")).toMatch(
 		"User updated successfully!",
 	);
-	expect(await profilePicture?.getAttribute("src")).toBe(profilePicturePath);
-	expect(await profilePictureInput?.getAttribute("value")).toBe(
-		profilePicturePath,
+
+	const updatedUser = await User.read(sql, user.props.id!);
+
+	expect(updatedUser?.props.profile).toMatch(/^avatars\/.+\.png$/);
+
+	// Get profile picture in nav and on the form.
+	const navPicture = await page.$("nav img");
+	const formPicture = await page.$("form#edit-user-form #profile-picture");
+
+	expect(await navPicture?.getAttribute("src")).toBe(
+		getPath(`images/${updatedUser?.props.profile}`),
+	);
+	expect(await formPicture?.getAttribute("src")).toBe(
+		getPath(`images/${updatedUser?.props.profile}`),
+	);
+
+	const response = await page.request.get(
+		getPath(`images/${updatedUser?.props.profile}`),
 	);
+
+	expect((await response.body()).equals(profilePicture)).toBe(true);
+});
+
+test("User was not updated with a profile picture that isn't an image.", async ({
+	page,
+}) => {
+	const user = await createUser();
+
+	await page.goto(`/login`);
+
+	await page.fill('form#login-form input[name="email"]', user.props.email);
+	await page.fill('form#login-form input[name="password"]', "password");
+	await page.click("form#login-form #login-form-submit-button");
+
+	await page.goto(`/users/${user.props.id}/edit`);
+
+	await page.setInputFiles('form#edit-user-form input[name="avatar"]', {
+		name: "pikachu.png",
+		mimeType: "image/png",
+		buffer: Buffer.from("<script>alert('Pikachu!')</script>"),
+	});
+	await page.click("form#edit-user-form #edit-user-form-submit-button");
+
+	expect(await page?.url()).toMatch(getPath(`users/${user.props.id}/edit`));
+	expect(await page?.textContent("body")).toMatch(
+		"Profile picture must be a PNG, JPEG, GIF or WebP image.",
+	);
+	expect(await page.$("nav img")).toBeNull();
 });
 
 test("User was able to toggle darkmode.", async ({ page, context }) => {
@@ -412,27 +452,51 @@ test("User was able to toggle darkmode.", async ({ page, context }) => {
 
 	expect(await page?.url()).toBe(getPath("todos"));
 
-	await page.goto(`/users/${user.props.id}/edit`);
+	await page.goto(`/users/${user.props.id}/settings`);
 
-	await page.check('form#edit-user-form input[name="darkmode"]');
-	await page.click("form#edit-user-form #edit-user-form-submit-button");
+	await page.selectOption('form#settings-form select[name="theme"]', "dark");
+	await page.click("form#settings-form #settings-form-submit-button");
+
+	// Check if the theme was applied and the settings cookie is set
+	expect(await page.getAttribute("html", "data-theme")).toBe("dark");
 
-	// Check if theme cookie is set
 	const cookies = await context.cookies();
-	const themeCookie = cookies.find((cookie) => cookie.name === "theme");
+	const settingsCookie = cookies.find((cookie) => cookie.name === "settings");
 
-	expect(themeCookie).toBeTruthy();
-	expect(themeCookie?.value).toBe("dark");
+	expect(settingsCookie).toBeTruthy();
+	expect(decodeURIComponent(settingsCookie!.value)).toMatch("theme=dark");
 
 	// Toggle darkmode off
-	await page.uncheck('form#edit-user-form input[name="darkmode"]');
-	await page.click("form#edit-user-form #edit-user-form-submit-button");
+	await page.selectOption('form#settings-form select[name="theme"]', "light");
+	await page.click("form#settings-form #settings-form-submit-button");
+
+	expect(await page.getAttribute("html", "data-theme")).toBe("light");
 
 	const cookies2 = await context.cookies();
-	const themeCookie2 = cookies2.find((cookie) => cookie.name === "theme");
+	const settingsCookie2 = cookies2.find(
+		(cookie) => cookie.name === "settings",
+	);
 
-	expect(themeCookie2).toBeTruthy();
-	expect(themeCookie2?.value).toBe("light");
+	expect(settingsCookie2).toBeTruthy();
+	expect(decodeURIComponent(settingsCookie2!.value)).toMatch("theme=light");
 });
 
-*/
+test("Darkmode was kept after logging out.", async ({ page }) => {
+	const user = await createUser();
+
+	await page.goto(`/login`);
+
+	await page.fill('form#login-form input[name="email"]', user.props.email);
+	await page.fill('form#login-form input[name="password"]', "password");
+	await page.click("form#login-form #login-form-submit-button");
+
+	await page.goto(`/users/${user.props.id}/settings`);
+
+	await page.selectOption('form#settings-form select[name="theme"]', "dark");
+	await page.click("form#settings-form #settings-form-submit-button");
+
+	await page.goto("/logout");
+	await page.goto("/");
+
+	expect(await page.getAttribute("html", "data-theme")).toBe("dark");
+});
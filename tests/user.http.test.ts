@@ -1,20 +1,30 @@
 import postgres from "postgres";
+import http from "http";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
 import User, { UserProps } from "../src/models/User";
 import Server from "../src/Server";
 import { StatusCode } from "../src/router/Response";
 import { HttpResponse, clearCookieJar, makeHttpRequest } from "./client";
 import { test, describe, expect, afterEach, beforeAll } from "vitest";
 import { createUTCDate } from "../src/utils";
+import LoginAttempt, { LOGIN_LIMITS } from "../src/models/LoginAttempt";
+import OutboxMailer from "../src/mail/OutboxMailer";
 
 describe("User HTTP operations", () => {
 	const sql = postgres({
 		database: "TodoDB",
 	});
 
+	const outboxDirectory = path.join(os.tmpdir(), "user-http-outbox");
+	const outbox = new OutboxMailer(outboxDirectory);
+
 	const server = new Server({
 		host: "localhost",
 		port: 3000,
 		sql,
+		mailer: outbox,
 	});
 
 	const createUser = async (props: Partial<UserProps> = {}) => {
@@ -22,10 +32,45 @@ describe("User HTTP operations", () => {
 			email: props.email || "user@email.com",
 			password: props.password || "password",
 			createdAt: props.createdAt || createUTCDate(),
-			// isAdmin: props.isAdmin || false, // Uncomment if implementing admin feature.
+			isAdmin: props.isAdmin || false,
+			verifiedAt:
+				"verifiedAt" in props ? props.verifiedAt : createUTCDate(),
+		});
+	};
+
+	/**
+	 * Static files don't answer with JSON, so they're requested without the client.
+	 * The path is sent as is, without being normalized.
+	 */
+	const getStaticFile = (path: string) => {
+		return new Promise<http.IncomingMessage>((resolve, reject) => {
+			http.get({ host: "localhost", port: 3000, path }, (response) => {
+				response.resume();
+				response.on("end", () => resolve(response));
+			}).on("error", reject);
 		});
 	};
 
+	/**
+	 * @returns The token of the last password reset link in the outbox.
+	 */
+	const getResetToken = async () => {
+		const messages = await outbox.read();
+
+		return messages[messages.length - 1]?.match(
+			/reset-password\/([0-9a-f]{64})/,
+		)?.[1];
+	};
+
+	/**
+	 * @returns The token of the last email verification link in the outbox.
+	 */
+	const getVerificationToken = async () => {
+		const messages = await outbox.read();
+
+		return messages[messages.length - 1]?.match(/verify-email\/(\S+)/)?.[1];
+	};
+
 	beforeAll(async () => {
 		await server.start();
 	});
@@ -39,6 +84,8 @@ describe("User HTTP operations", () => {
 		const tables = ["todos", "subtodos", "users"];
 
 		try {
+			await sql`DELETE FROM login_attempts`;
+
 			for (const table of tables) {
 				await sql.unsafe(`DELETE FROM ${table}`);
 				await sql.unsafe(
@@ -50,6 +97,7 @@ describe("User HTTP operations", () => {
 		}
 
 		clearCookieJar();
+		await fs.rm(outboxDirectory, { recursive: true, force: true });
 	});
 
 	test("User was created.", async () => {
@@ -154,6 +202,42 @@ describe("User HTTP operations", () => {
 		expect(body.payload.user.editedAt).toBeFalsy();
 	});
 
+	test("Session ID was changed on login.", async () => {
+		const user = await createUser();
+		const credentials = {
+			email: user.props.email,
+			password: "password",
+		};
+
+		const { cookies } = await makeHttpRequest(
+			"POST",
+			"/login",
+			credentials,
+		);
+		const firstSessionId = cookies!.session_id;
+
+		const { cookies: newCookies }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/login",
+			credentials,
+		);
+
+		expect(newCookies!.session_id).toMatch(/^[0-9a-f]{32}$/);
+		expect(newCookies!.session_id).not.toBe(firstSessionId);
+		expect(
+			await server.getSessionManager().get(firstSessionId),
+		).toBeUndefined();
+	});
+
+	test("Anonymous visitor was not given a session.", async () => {
+		const { cookies }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/login",
+		);
+
+		expect(cookies!.session_id).toBeUndefined();
+	});
+
 	test("User was not logged in due to invalid email.", async () => {
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"POST",
@@ -183,23 +267,443 @@ describe("User HTTP operations", () => {
 		expect(body.message).toBe("Invalid credentials.");
 	});
 
-	/* *** Uncomment if implementing admin feature, as well as the comment above in createUser(). ***
+	test("User was locked out after too many failed logins.", async () => {
+		const user = await createUser();
 
-	test("User was made admin.", async () => {
+		for (let i = 0; i < LOGIN_LIMITS.account.freeAttempts; i++) {
+			await makeHttpRequest("POST", "/login", {
+				email: user.props.email,
+				password: "invalidpassword",
+			});
+		}
+
+		const { statusCode, body, headers }: HttpResponse =
+			await makeHttpRequest("POST", "/login", {
+				email: user.props.email.toUpperCase(),
+				password: "password",
+			});
+
+		expect(statusCode).toBe(StatusCode.TooManyRequests);
+		expect(body.message).toMatch(/^Too many login attempts/);
+		expect(Number(headers!["retry-after"])).toBeGreaterThan(0);
+	});
+
+	test("Locked out user was unlocked by an admin.", async () => {
 		const admin = await createUser({
 			email: "admin@email.com",
 			isAdmin: true,
 		});
 		const user = await createUser();
 
+		for (let i = 0; i < LOGIN_LIMITS.account.lockoutAfter; i++) {
+			await LoginAttempt.fail(sql, "203.0.113.1", user.props.email);
+		}
+
 		await makeHttpRequest("POST", "/login", {
 			email: admin.props.email,
 			password: "password",
 		});
 
+		const { body: list }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/users",
+		);
+
+		expect(
+			list.payload.users.find(({ id }: any) => id === user.props.id)
+				.isLocked,
+		).toBe(true);
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}/unlock`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("User unlocked");
+
+		const { statusCode: loginStatusCode }: HttpResponse =
+			await makeHttpRequest("POST", "/login", {
+				email: user.props.email,
+				password: "password",
+			});
+
+		expect(loginStatusCode).toBe(StatusCode.OK);
+	});
+
+	test("User was not unlocked by non-admin user.", async () => {
+		const user = await createUser();
+		const nonAdmin = await createUser({ email: "nonadmin@example.com" });
+
+		await makeHttpRequest("POST", "/login", {
+			email: nonAdmin.props.email,
+			password: "password",
+		});
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}/unlock`,
+		);
+
+		expect(statusCode).toBe(StatusCode.Forbidden);
+	});
+
+	test("Password was reset with an emailed link.", async () => {
+		const user = await createUser();
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/forgot-password",
+			{ email: user.props.email },
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe(
+			"If an account with that email exists, a password reset link has been sent to it.",
+		);
+
+		const token = await getResetToken();
+
+		expect(token).toBeTruthy();
+		expect(
+			(await makeHttpRequest("GET", `/reset-password/${token}`))
+				.statusCode,
+		).toBe(StatusCode.OK);
+
+		const { statusCode: resetStatusCode }: HttpResponse =
+			await makeHttpRequest("POST", `/reset-password/${token}`, {
+				password: "newpassword",
+				confirmPassword: "newpassword",
+			});
+
+		expect(resetStatusCode).toBe(StatusCode.OK);
+
+		const { statusCode: oldLoginStatusCode }: HttpResponse =
+			await makeHttpRequest("POST", "/login", {
+				email: user.props.email,
+				password: "password",
+			});
+		const { statusCode: newLoginStatusCode }: HttpResponse =
+			await makeHttpRequest("POST", "/login", {
+				email: user.props.email,
+				password: "newpassword",
+			});
+
+		expect(oldLoginStatusCode).toBe(StatusCode.BadRequest);
+		expect(newLoginStatusCode).toBe(StatusCode.OK);
+	});
+
+	test("Password reset link was used only once.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/forgot-password", {
+			email: user.props.email,
+		});
+
+		const token = await getResetToken();
+
+		await makeHttpRequest("POST", `/reset-password/${token}`, {
+			password: "newpassword",
+			confirmPassword: "newpassword",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"POST",
+			`/reset-password/${token}`,
+			{
+				password: "otherpassword",
+				confirmPassword: "otherpassword",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe(
+			"Password reset link is invalid or has expired.",
+		);
+	});
+
+	test("Password reset link was not sent to an unknown email.", async () => {
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/forgot-password",
+			{ email: "nobody@email.com" },
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(await outbox.read()).toEqual([]);
+	});
+
+	test("Password was not reset with an invalid link.", async () => {
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/reset-password/${"0".repeat(64)}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+	});
+
+	test("User was logged out everywhere after a password reset.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+		await makeHttpRequest("POST", "/forgot-password", {
+			email: user.props.email,
+		});
+		await makeHttpRequest(
+			"POST",
+			`/reset-password/${await getResetToken()}`,
+			{
+				password: "newpassword",
+				confirmPassword: "newpassword",
+			},
+		);
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos",
+		);
+
+		expect(statusCode).toBe(StatusCode.Unauthorized);
+	});
+
+	test("Verification link was sent on registration.", async () => {
+		const { body }: HttpResponse = await makeHttpRequest("POST", "/users", {
+			email: "user@email.com",
+			password: "password",
+			confirmPassword: "password",
+		});
+
+		expect(body.payload.user.verifiedAt).toBeNull();
+
+		const [message] = await outbox.read();
+
+		expect(message).toContain("To: user@email.com");
+		expect(await getVerificationToken()).toBeTruthy();
+	});
+
+	test("Email was verified with the emailed link.", async () => {
+		await makeHttpRequest("POST", "/users", {
+			email: "user@email.com",
+			password: "password",
+			confirmPassword: "password",
+		});
+		await makeHttpRequest("POST", "/login", {
+			email: "user@email.com",
+			password: "password",
+		});
+
+		const { statusCode: unverifiedStatusCode }: HttpResponse =
+			await makeHttpRequest("POST", "/todos", {
+				title: "Test Todo",
+				description: "This is a test todo",
+			});
+
+		expect(unverifiedStatusCode).toBe(StatusCode.Forbidden);
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/verify-email/${await getVerificationToken()}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.message).toBe("Email verified");
+		expect(body.payload.user.verifiedAt).toBeTruthy();
+
+		const { statusCode: verifiedStatusCode }: HttpResponse =
+			await makeHttpRequest("POST", "/todos", {
+				title: "Test Todo",
+				description: "This is a test todo",
+			});
+
+		expect(verifiedStatusCode).toBe(StatusCode.Created);
+	});
+
+	test("Email was not verified with a tampered link.", async () => {
+		const user = await createUser({ verifiedAt: null });
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+		await makeHttpRequest("POST", "/verify-email");
+
+		const token = (await getVerificationToken())!.replace(/^./, (c) =>
+			c === "A" ? "B" : "A",
+		);
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/verify-email/${token}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe(
+			"Verification link is invalid or has expired.",
+		);
+	});
+
+	test("Changed email had to be verified again.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { body }: HttpResponse = await makeHttpRequest(
 			"PUT",
 			`/users/${user.props.id}`,
+			{ email: "new@email.com" },
+		);
+
+		expect(body.payload.user.verifiedAt).toBeNull();
+		expect((await outbox.read())[0]).toContain("To: new@email.com");
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/todos",
+			{
+				title: "Test Todo",
+				description: "This is a test todo",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.Forbidden);
+	});
+
+	test("Email that only changed case stayed verified.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}`,
+			{ email: "User@Email.com" },
+		);
+
+		expect(body.payload.user.email).toBe("User@Email.com");
+		expect(body.payload.user.verifiedAt).toBeTruthy();
+		expect(await outbox.read()).toEqual([]);
+	});
+
+	test("Verification link was not resent to a verified user.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/verify-email",
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(await outbox.read()).toEqual([]);
+	});
+
+	test("User was logged back in with a remember me token.", async () => {
+		const user = await createUser();
+
+		const { cookies }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/login",
+			{
+				email: user.props.email,
+				password: "password",
+				remember: "on",
+			},
+		);
+
+		expect(cookies!.email).toBe(user.props.email);
+		expect(cookies!.remember_token).toBeTruthy();
+
+		const firstToken = cookies!.remember_token;
+
+		// Pretend the session expired.
+		await server.getSessionManager().destroy(cookies!.session_id);
+
+		const { statusCode, cookies: newCookies }: HttpResponse =
+			await makeHttpRequest("GET", "/todos");
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(newCookies!.remember_token).toBeTruthy();
+		expect(newCookies!.remember_token).not.toBe(firstToken);
+	});
+
+	test("Remember me token was revoked on logout.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+			remember: "on",
+		});
+
+		const [{ count: countBefore }] =
+			await sql`SELECT COUNT(*) FROM remember_tokens`;
+
+		expect(Number(countBefore)).toBe(1);
+
+		const { cookies }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/logout",
+		);
+
+		const [{ count: countAfter }] =
+			await sql`SELECT COUNT(*) FROM remember_tokens`;
+
+		expect(Number(countAfter)).toBe(0);
+		expect(cookies!.remember_token).toBe("");
+		expect(cookies!.email).toBe(user.props.email);
+	});
+
+	test("User was not logged back in without a remember me token.", async () => {
+		const user = await createUser();
+
+		const { cookies }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/login",
+			{
+				email: user.props.email,
+				password: "password",
+				remember: "on",
+			},
+		);
+
+		await server.getSessionManager().destroy(cookies!.session_id);
+		clearCookieJar();
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/todos",
+		);
+
+		expect(statusCode).toBe(StatusCode.Unauthorized);
+	});
+
+	test("User was made admin.", async () => {
+		const admin = await createUser({
+			email: "admin@email.com",
+			isAdmin: true,
+		});
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: admin.props.email,
+			password: "password",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}/admin`,
 			{
 				isAdmin: true,
 			},
@@ -220,7 +724,7 @@ describe("User HTTP operations", () => {
 
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"PUT",
-			`/users/${user.props.id}`,
+			`/users/${user.props.id}/admin`,
 			{
 				isAdmin: true,
 			},
@@ -241,7 +745,7 @@ describe("User HTTP operations", () => {
 
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
 			"PUT",
-			`/users/${user.props.id}`,
+			`/users/${user.props.id}/admin`,
 			{
 				isAdmin: true,
 			},
@@ -279,6 +783,31 @@ describe("User HTTP operations", () => {
 		expect(body.payload.users.length).toBe(4);
 	});
 
+	test("Users were searched by email domain.", async () => {
+		await createUser({ email: "user1@example.com" });
+		await createUser({ email: "user2@example.org" });
+
+		const admin = await createUser({
+			email: "admin@email.com",
+			isAdmin: true,
+		});
+
+		await makeHttpRequest("POST", "/login", {
+			email: admin.props.email,
+			password: "password",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/users?search=example.com",
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.users.map((user: UserProps) => user.email)).toEqual(
+			["user1@example.com"],
+		);
+	});
+
 	test("Users were not listed without being logged in.", async () => {
 		await createUser({ email: "user1@example.com" });
 		await createUser({ email: "user2@example.com" });
@@ -333,11 +862,45 @@ describe("User HTTP operations", () => {
 		expect(body.message).toBe("User deleted");
 		expect(Object.keys(body.payload).includes("user")).toBe(true);
 		expect(body.payload.user.email).toBe("user@email.com");
-		expect(body.payload.user.password).toBe("password");
+		expect(body.payload.user.password).toBeUndefined();
 		expect(body.payload.user.createdAt).toBeTruthy();
 		expect(body.payload.user.editedAt).toBeFalsy();
 	});
 
+	test("Deleted user was logged out everywhere.", async () => {
+		const user = await createUser();
+		const admin = await createUser({
+			email: "admin@email.com",
+			isAdmin: true,
+		});
+
+		const { cookies }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/login",
+			{
+				email: user.props.email,
+				password: "password",
+			},
+		);
+
+		clearCookieJar();
+
+		await makeHttpRequest("POST", "/login", {
+			email: admin.props.email,
+			password: "password",
+		});
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"DELETE",
+			`/users/${user.props.id}`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(
+			await server.getSessionManager().get(cookies!.session_id),
+		).toBeUndefined();
+	});
+
 	test("User was not deleted without being logged in.", async () => {
 		const user = await createUser();
 		const { statusCode, body }: HttpResponse = await makeHttpRequest(
@@ -345,7 +908,7 @@ describe("User HTTP operations", () => {
 			`/users/${user.props.id}`,
 		);
 
-		expect(statusCode).toBe(StatusCode.Forbidden);
+		expect(statusCode).toBe(StatusCode.Unauthorized);
 		expect(body.message).toBe("Unauthorized");
 	});
 
@@ -366,7 +929,6 @@ describe("User HTTP operations", () => {
 		expect(statusCode).toBe(StatusCode.Forbidden);
 		expect(body.message).toBe("Unauthorized");
 	});
-	*/
 
 	/* *** Uncomment if implementing profile feature. ***
 
@@ -398,6 +960,8 @@ describe("User HTTP operations", () => {
 		expect(body.message).toBe("User not found");
 	});
 
+	*/
+
 	test("User was updated.", async () => {
 		const user = await createUser();
 
@@ -412,7 +976,7 @@ describe("User HTTP operations", () => {
 			{
 				email: "newemail@email.com",
 				password: "newpassword",
-				profile: "https://picsum.photos/id/238/100",
+				currentPassword: "password",
 			},
 		);
 
@@ -422,14 +986,74 @@ describe("User HTTP operations", () => {
 		expect(body.message).toBe("User updated");
 		expect(Object.keys(body.payload).includes("user")).toBe(true);
 		expect(body.payload.user.email).toBe("newemail@email.com");
-		expect(body.payload.user.password).toBe("newpassword");
-		expect(body.payload.user.profile).toBe(
-			"https://picsum.photos/id/238/100",
-		);
+		expect(body.payload.user.password).toBeUndefined();
 		expect(body.payload.user.createdAt).toBeTruthy();
 		expect(body.payload.user.editedAt).toBeTruthy();
 	});
 
+	test("User was logged out everywhere else after changing their password.", async () => {
+		const user = await createUser();
+
+		// Log in on another device first.
+		const { cookies: otherCookies }: HttpResponse = await makeHttpRequest(
+			"POST",
+			"/login",
+			{
+				email: user.props.email,
+				password: "password",
+				remember: "on",
+			},
+		);
+
+		clearCookieJar();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { statusCode }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}`,
+			{
+				password: "newpassword",
+				currentPassword: "password",
+			},
+		);
+
+		const [{ count }] = await sql`SELECT COUNT(*) FROM remember_tokens`;
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(Number(count)).toBe(0);
+		expect(
+			await server.getSessionManager().get(otherCookies!.session_id),
+		).toBeUndefined();
+		expect((await makeHttpRequest("GET", "/todos")).statusCode).toBe(
+			StatusCode.OK,
+		);
+	});
+
+	test("User password was not updated with the wrong current password.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}`,
+			{
+				password: "newpassword",
+				currentPassword: "wrongpassword",
+			},
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Current password is incorrect.");
+	});
+
 	test("User was not updated without being logged in.", async () => {
 		await createUser();
 
@@ -442,7 +1066,7 @@ describe("User HTTP operations", () => {
 			},
 		);
 
-		expect(statusCode).toBe(StatusCode.Forbidden);
+		expect(statusCode).toBe(StatusCode.Unauthorized);
 		expect(body.message).toBe("Unauthorized");
 	});
 
@@ -484,7 +1108,7 @@ describe("User HTTP operations", () => {
 			},
 		);
 
-		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(statusCode).toBe(StatusCode.Conflict);
 		expect(body.message).toBe("User with this email already exists.");
 	});
 
@@ -497,28 +1121,153 @@ describe("User HTTP operations", () => {
 		});
 
 		const { statusCode, body, cookies }: HttpResponse =
-			await makeHttpRequest("PUT", `/users/${user.props.id}`, {
-				darkmode: "on",
+			await makeHttpRequest("PUT", `/users/${user.props.id}/settings`, {
+				theme: "dark",
 			});
 
 		expect(statusCode).toBe(StatusCode.OK);
 		expect(Object.keys(body).includes("message")).toBe(true);
 		expect(Object.keys(body).includes("payload")).toBe(true);
-		expect(body.message).toBe("User updated");
-		expect(Object.keys(body.payload).includes("user")).toBe(true);
+		expect(body.message).toBe("Settings updated");
+		expect(Object.keys(body.payload).includes("settings")).toBe(true);
 		expect(body.payload.isDark).toBe(true);
-		expect(body.payload.user.createdAt).toBeTruthy();
-		expect(body.payload.user.editedAt).toBeTruthy();
-		expect(Object.keys(cookies!).includes("theme")).toBe(true);
-		expect(cookies!.theme).toBe("dark");
+		expect(body.payload.settings.theme).toBe("dark");
+		expect(body.payload.settings.editedAt).toBeTruthy();
+		expect(Object.keys(cookies!).includes("settings")).toBe(true);
+		expect(decodeURIComponent(cookies!.settings)).toMatch("theme=dark");
 
-		await makeHttpRequest("PUT", `/users/${user.props.id}`, {
-			darkmode: "off",
+		await makeHttpRequest("PUT", `/users/${user.props.id}/settings`, {
+			theme: "light",
 		});
 
-		expect(Object.keys(cookies!).includes("theme")).toBe(true);
-		expect(cookies!.theme).toBe("light");
+		expect(Object.keys(cookies!).includes("settings")).toBe(true);
+		expect(decodeURIComponent(cookies!.settings)).toMatch("theme=light");
 	});
 
-	*/
+	test("Settings were kept after logging out and back in.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+		await makeHttpRequest("PUT", `/users/${user.props.id}/settings`, {
+			pageSize: 10,
+			sortBy: "title",
+		});
+		await makeHttpRequest("GET", "/logout");
+		clearCookieJar();
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"GET",
+			`/users/${user.props.id}/settings`,
+		);
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.settings.pageSize).toBe(10);
+		expect(body.payload.settings.sortBy).toBe("title");
+	});
+
+	test("Settings were not updated with an invalid theme.", async () => {
+		const user = await createUser();
+
+		await makeHttpRequest("POST", "/login", {
+			email: user.props.email,
+			password: "password",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user.props.id}/settings`,
+			{ theme: "purple" },
+		);
+
+		expect(statusCode).toBe(StatusCode.BadRequest);
+		expect(body.message).toBe("Theme must be one of: light, dark.");
+	});
+
+	test("Settings of another user were not updated.", async () => {
+		const user1 = await createUser({ email: "user1@email.com" });
+		const user2 = await createUser({ email: "user2@email.com" });
+
+		await makeHttpRequest("POST", "/login", {
+			email: user1.props.email,
+			password: "password",
+		});
+
+		const { statusCode, body }: HttpResponse = await makeHttpRequest(
+			"PUT",
+			`/users/${user2.props.id}/settings`,
+			{ theme: "dark" },
+		);
+
+		expect(statusCode).toBe(StatusCode.Forbidden);
+		expect(body.message).toBe("Unauthorized");
+	});
+
+	test("Anonymous visitor's settings were stored in a cookie.", async () => {
+		const { statusCode, body, cookies }: HttpResponse =
+			await makeHttpRequest("PUT", "/settings", { theme: "dark" });
+
+		expect(statusCode).toBe(StatusCode.OK);
+		expect(body.payload.isDark).toBe(true);
+		expect(decodeURIComponent(cookies!.settings)).toMatch("theme=dark");
+
+		const { body: settingsBody }: HttpResponse = await makeHttpRequest(
+			"GET",
+			"/settings",
+		);
+
+		expect(settingsBody.payload.settings.theme).toBe("dark");
+	});
+
+	test("Static file was served with its content type.", async () => {
+		const response = await getStaticFile("/styles/style.css");
+
+		expect(response.statusCode).toBe(StatusCode.OK);
+		expect(response.headers["content-type"]).toMatch("text/css");
+	});
+
+	test("Missing static file was not found.", async () => {
+		const response = await getStaticFile("/images/avatars/gone.png");
+
+		expect(response.statusCode).toBe(StatusCode.NotFound);
+	});
+
+	test("Favicon was served.", async () => {
+		const response = await getStaticFile("/favicon.ico");
+
+		expect(response.statusCode).toBe(StatusCode.OK);
+		expect(response.headers["content-type"]).toBe("image/x-icon");
+	});
+
+	test("Project files outside the public folders were not served.", async () => {
+		for (const path of [
+			"/package.json",
+			"/init.sql",
+			"/src/Server.ts",
+			"/.devcontainer/.env",
+			"/.env",
+			"/outbox/1760835600000-000000.eml",
+		]) {
+			const response = await getStaticFile(path);
+
+			expect(response.statusCode).toBe(StatusCode.NotFound);
+		}
+	});
+
+	test('Static file path with ".." was rejected.', async () => {
+		for (const path of [
+			"/styles/../package.json",
+			"/styles/%2e%2e/package.json",
+		]) {
+			const response = await getStaticFile(path);
+
+			expect(response.statusCode).toBe(StatusCode.BadRequest);
+		}
+	});
 });
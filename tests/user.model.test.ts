@@ -1,4 +1,5 @@
 import postgres from "postgres";
+import bcrypt from "bcrypt";
 import { test, describe, expect, afterEach } from "vitest";
 import { createUTCDate } from "../src/utils";
 import User, { UserProps } from "../src/models/User";
@@ -34,7 +35,7 @@ describe("User CRUD operations", () => {
 			email: props.email || "user@email.com",
 			password: props.password || "password",
 			createdAt: props.createdAt || createUTCDate(),
-			// isAdmin: props.isAdmin || false, // Uncomment if implementing admin feature.
+			isAdmin: props.isAdmin || false,
 		});
 	};
 
@@ -91,8 +92,6 @@ describe("User CRUD operations", () => {
 		}).rejects.toThrow("Invalid credentials.");
 	});
 
-	/* Uncomment if implementing admin feature, as well as the comment above in createUser().
-
 	test("Users were listed.", async () => {
 		const user1 = await createUser({ email: "user1@email.com" });
 		const user2 = await createUser({ email: "user2@email.com" });
@@ -133,16 +132,15 @@ describe("User CRUD operations", () => {
 		expect(deletedUser).toBeNull();
 	});
 
-	*/
-
-	/* Uncomment if implementing profile feature.
-
 	test("User was read.", async () => {
 		const user = await createUser({ password: "Password123" });
 		const readUser = await User.read(sql, user.props.id!);
 
 		expect(readUser?.props.email).toBe("user@email.com");
-		expect(readUser?.props.password).toBe("Password123");
+		expect(readUser?.props.password).not.toBe("Password123");
+		expect(
+			await bcrypt.compare("Password123", readUser!.props.password),
+		).toBe(true);
 	});
 
 	test("User was updated.", async () => {
@@ -179,6 +177,4 @@ describe("User CRUD operations", () => {
 
 		expect(user.props.profile).toBe(profile);
 	});
-
-	*/
 });
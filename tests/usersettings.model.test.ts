@@ -0,0 +1,131 @@
+import postgres from "postgres";
+import UserSettings, {
+	DEFAULT_SETTINGS,
+	InvalidSettingsError,
+} from "../src/models/UserSettings";
+import { test, describe, expect, afterEach, beforeEach } from "vitest";
+import { createUTCDate } from "../src/utils";
+import User from "../src/models/User";
+
+describe("UserSettings operations", () => {
+	// Set up the connection to the DB.
+	const sql = postgres({
+		database: "TodoDB",
+	});
+
+	beforeEach(async () => {
+		await User.create(sql, {
+			email: "user@email.com",
+			password: "password",
+			createdAt: createUTCDate(),
+		});
+	});
+
+	/**
+	 * Clean up the database after each test. Deleting the users
+	 * also deletes their settings.
+	 * @see https://www.postgresql.org/docs/13/sql-altersequence.html
+	 */
+	afterEach(async () => {
+		try {
+			await sql.unsafe(`DELETE FROM users`);
+			await sql.unsafe(`ALTER SEQUENCE users_id_seq RESTART WITH 1;`);
+		} catch (error) {
+			console.error(error);
+		}
+	});
+
+	test("Default settings were read for a new user.", async () => {
+		const settings = await UserSettings.read(sql, 1);
+
+		expect(settings.props).toEqual({ ...DEFAULT_SETTINGS, userId: 1 });
+	});
+
+	test("Settings were saved.", async () => {
+		const settings = await UserSettings.read(sql, 1);
+
+		await settings.save({ theme: "dark", pageSize: 10 });
+
+		expect(settings.props.theme).toBe("dark");
+		expect(settings.props.pageSize).toBe(10);
+		expect(settings.props.editedAt).toBeTruthy();
+
+		const readSettings = await UserSettings.read(sql, 1);
+
+		expect(readSettings.props.theme).toBe("dark");
+		expect(readSettings.props.pageSize).toBe(10);
+		expect(readSettings.props.timezone).toBe(DEFAULT_SETTINGS.timezone);
+	});
+
+	test("Settings were updated.", async () => {
+		const settings = await UserSettings.read(sql, 1);
+
+		await settings.save({ theme: "dark" });
+		await settings.save({ timezone: "America/Toronto" });
+
+		const readSettings = await UserSettings.read(sql, 1);
+
+		expect(readSettings.props.theme).toBe("dark");
+		expect(readSettings.props.timezone).toBe("America/Toronto");
+	});
+
+	test("Settings were deleted with their user.", async () => {
+		const settings = await UserSettings.read(sql, 1);
+		await settings.save({ theme: "dark" });
+
+		const user = await User.read(sql, 1);
+		await user!.delete();
+
+		const [{ count }] = await sql`SELECT COUNT(*) FROM user_settings`;
+
+		expect(Number(count)).toBe(0);
+	});
+
+	test("Settings were parsed.", () => {
+		expect(
+			UserSettings.parse({
+				theme: "dark",
+				timezone: "America/Toronto",
+				locale: "fr-ca",
+				sortBy: "dueAt",
+				orderBy: "desc",
+				pageSize: "10",
+				method: "PUT",
+			}),
+		).toEqual({
+			theme: "dark",
+			timezone: "America/Toronto",
+			locale: "fr-CA",
+			sortBy: "dueAt",
+			orderBy: "desc",
+			pageSize: 10,
+		});
+		expect(UserSettings.parse({ theme: "" })).toEqual({});
+	});
+
+	test("Invalid settings were not parsed.", () => {
+		expect(() => UserSettings.parse({ theme: "purple" })).toThrow(
+			InvalidSettingsError,
+		);
+		expect(() => UserSettings.parse({ timezone: "Mars/Olympus" })).toThrow(
+			InvalidSettingsError,
+		);
+		expect(() => UserSettings.parse({ sortBy: "password" })).toThrow(
+			InvalidSettingsError,
+		);
+		expect(() => UserSettings.parse({ pageSize: "1000" })).toThrow(
+			InvalidSettingsError,
+		);
+	});
+
+	test("Settings were stored in and read from a cookie.", () => {
+		const settings = { ...DEFAULT_SETTINGS, theme: "dark" as const };
+		const value = UserSettings.toCookieValue(settings);
+
+		expect(value).toMatch(/^theme=dark&/);
+		expect(UserSettings.fromCookieValue(value)).toEqual(settings);
+		expect(UserSettings.fromCookieValue("theme=purple")).toEqual(
+			DEFAULT_SETTINGS,
+		);
+	});
+});
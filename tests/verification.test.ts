@@ -0,0 +1,56 @@
+import { test, describe, expect, afterEach, vi } from "vitest";
+import {
+	EMAIL_VERIFICATION_TIME,
+	createVerificationToken,
+	digestEmail,
+	readVerificationToken,
+} from "../src/auth/verification";
+
+describe("Email verification tokens", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	test("Token was read back with the user and email it was issued for.", () => {
+		const token = createVerificationToken(1, "user@email.com");
+
+		expect(token).not.toContain("user@email.com");
+		expect(readVerificationToken(token)).toEqual({
+			userId: 1,
+			emailDigest: digestEmail("User@Email.com "),
+		});
+	});
+
+	test("Tampered token was rejected.", () => {
+		const token = createVerificationToken(1, "user@email.com");
+		const value = Buffer.from(token, "base64url").toString();
+		const encode = (value: string) =>
+			Buffer.from(value).toString("base64url");
+
+		expect(
+			readVerificationToken(encode(value.replace(/^1/, "2"))),
+		).toBeNull();
+		expect(readVerificationToken(encode("1:9999999999999:abc"))).toBeNull();
+		expect(readVerificationToken("not a token")).toBeNull();
+	});
+
+	test("Expired token was rejected.", () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+
+		const token = createVerificationToken(1, "user@email.com");
+
+		vi.advanceTimersByTime(EMAIL_VERIFICATION_TIME - 1);
+		expect(readVerificationToken(token)).not.toBeNull();
+
+		vi.advanceTimersByTime(1);
+		expect(readVerificationToken(token)).toBeNull();
+	});
+
+	test("Token for another email didn't match.", () => {
+		const token = readVerificationToken(
+			createVerificationToken(1, "old@email.com"),
+		);
+
+		expect(token!.emailDigest).not.toBe(digestEmail("new@email.com"));
+	});
+});